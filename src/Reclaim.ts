@@ -1,39 +1,74 @@
-import type { Proof, Context } from './utils/interfaces';
+import type { Beacon, Proof, Context, SessionStore } from './utils/interfaces';
 import { getIdentifierFromClaimInfo } from './witness';
 import type {
   SignedClaim,
   ProofRequestOptions,
   StartSessionParams,
+  SessionHandle,
+  StatusUpdatesOptions,
+  WaitForProofsOptions,
+  OnchainClaimInfo,
+  OnchainProof,
+  OnchainProofMethod,
+  OnchainSignedClaim,
   ProofPropertiesJSON,
+  ProofVerificationReport,
+  ResumedSession,
+  StatusTransport,
+  StatusUrlResponse,
+  StoredSession,
   TemplateData,
+  VerificationFailure,
+  VerificationFailureCode,
+  VerificationResult,
+  VerifyProofOptions,
 } from './utils/types';
 import { SessionStatus } from './utils/types';
 import { ethers } from 'ethers';
 import canonicalize from 'canonicalize';
-import { replaceAll, scheduleIntervalEndingTask } from './utils/helper';
-import { constants } from './utils/constants';
+import {
+  createSessionCompletion,
+  replaceAll,
+  resolveEndpoints,
+  resolvePollingOptions,
+  scheduleIntervalEndingTask,
+} from './utils/helper';
 import {
   AddContextError,
+  ContractRevertError,
+  EpochNotInSnapshotError,
   GetAppCallbackUrlError,
   GetStatusUrlError,
   InitError,
   InvalidParamError,
+  NetworkError,
+  OwnerMismatchError,
   ProofNotFoundError,
   ProofNotVerifiedError,
   ProofSubmissionFailedError,
   ProviderFailedError,
+  SessionCancelledError,
   SessionNotStartedError,
   SetParamsError,
   SetSignatureError,
   SignatureGeneratingError,
   SignatureNotFoundError,
+  StaleProofError,
+  VerificationMismatchError,
 } from './utils/errors';
 import {
+  validateAppSecretOrSigner,
   validateContext,
+  validateEndpoints,
   validateFunctionParams,
   validateParameters,
+  validatePollingOptions,
+  validateRetryPolicy,
+  validateSessionStore,
   validateSignature,
+  validateTransport,
   validateURL,
+  validateVerifyProofOptions,
 } from './utils/validationUtils';
 import {
   fetchStatusUrl,
@@ -41,61 +76,313 @@ import {
   updateSession,
 } from './utils/sessionUtils';
 import {
-  assertValidSignedClaim,
+  assertProofMatchesRequest,
   createLinkWithTemplateData,
+  evaluateWitnessSignatures,
+  getStaleProofReason,
   getWitnessesForClaim,
+  recoverSignersOfSignedClaim,
 } from './utils/proofUtils';
+import { loadSessions, removeSession, saveSession } from './utils/sessionStore';
+import { openStatusStream } from './utils/statusStream';
+import type { StatusStream } from './utils/statusStream';
+import {
+  DEFAULT_CHAIN_ID,
+  isChainSupported,
+  makeBeacon,
+  makeBeaconFromSnapshot,
+  verifyClaimOnchain,
+} from './smart-contract';
+import { Reclaim__factory as ReclaimFactory } from './contract-types';
 import loggerModule from './utils/logger';
 import { Platform } from 'react-native';
 const logger = loggerModule.logger;
 const sdkVersionNumber = require('../package.json').version;
+const reclaimInterface = new ethers.utils.Interface(ReclaimFactory.abi);
 
+// Resolves false when a signature check fails. Rejects with a typed error for the
+// failures in VERIFICATION_ERRORS: NO_SIGNATURES, EPOCH_NOT_IN_SNAPSHOT,
+// OWNER_MISMATCH, STALE_PROOF, ONCHAIN_REVERTED and VERIFICATION_MISMATCH.
+// verifyProofDetailed reports every failure without throwing
 export async function verifyProof(
-  proofOrProofs: Proof | Proof[]
+  proofOrProofs: Proof | Proof[],
+  options?: VerifyProofOptions
 ): Promise<boolean> {
-  // If input is an array of proofs
-  if (Array.isArray(proofOrProofs)) {
-    for (const proof of proofOrProofs) {
-      const isVerified = await verifyProof(proof);
-      if (!isVerified) {
-        return false;
-      }
+  const { isVerified } = await verifyProofWithResult(proofOrProofs, options);
+  return isVerified;
+}
+
+// Like verifyProof, but also reports the chain the witnesses were read from
+export async function verifyProofWithResult(
+  proofOrProofs: Proof | Proof[],
+  options?: VerifyProofOptions
+): Promise<VerificationResult> {
+  const verifier = resolveVerifier(options);
+  const reports = await verifyProofs(proofOrProofs, verifier);
+  const failure = reports.find((report) => !report.isVerified);
+  const FailureError =
+    failure?.failureCode && VERIFICATION_ERRORS[failure.failureCode];
+  if (FailureError) {
+    throw new FailureError(failure.failureReason);
+  }
+  return { isVerified: !failure, chainId: verifier.chainId };
+}
+
+// Verifies every proof and reports why each one failed, instead of stopping at the first
+export async function verifyProofDetailed(
+  proofOrProofs: Proof | Proof[],
+  options?: VerifyProofOptions
+): Promise<ProofVerificationReport[]> {
+  return verifyProofs(proofOrProofs, resolveVerifier(options));
+}
+
+// Failures that verifyProof throws instead of reporting an unverified proof
+const VERIFICATION_ERRORS: {
+  [code in VerificationFailureCode]?: new (message?: string) => Error;
+} = {
+  NO_SIGNATURES: SignatureNotFoundError,
+  // A snapshot without the epoch can't tell whether the proof is valid
+  EPOCH_NOT_IN_SNAPSHOT: EpochNotInSnapshotError,
+  OWNER_MISMATCH: OwnerMismatchError,
+  STALE_PROOF: StaleProofError,
+  ONCHAIN_REVERTED: ContractRevertError,
+  VERIFICATION_MISMATCH: VerificationMismatchError,
+};
+
+type Verifier = {
+  chainId?: number;
+  getBeacon: () => Beacon | undefined;
+  options: VerifyProofOptions;
+};
+
+async function verifyProofs(
+  proofOrProofs: Proof | Proof[],
+  verifier: Verifier
+): Promise<ProofVerificationReport[]> {
+  const proofs = Array.isArray(proofOrProofs) ? proofOrProofs : [proofOrProofs];
+  const reports: ProofVerificationReport[] = [];
+  for (const proof of proofs) {
+    reports.push(await verifySingleProof(proof, verifier));
+  }
+  return reports;
+}
+
+function resolveVerifier(options: VerifyProofOptions = {}): Verifier {
+  validateVerifyProofOptions(options, 'verifyProof');
+  if (options.snapshot) {
+    options = {
+      ...options,
+      chainId: options.snapshot.chainId,
+      beacon: makeBeaconFromSnapshot(options.snapshot),
+      snapshot: undefined,
+    };
+  }
+  const chainId = options.beacon
+    ? options.chainId
+    : options.chainId ?? DEFAULT_CHAIN_ID;
+  if (!options.beacon && !isChainSupported(chainId as number)) {
+    throw new InvalidParamError(
+      `No Reclaim contract is deployed on chain ${chainId}, pass a beacon to verify against it`
+    );
+  }
+  if (
+    options.mode &&
+    options.mode !== 'local' &&
+    (chainId === undefined || !isChainSupported(chainId))
+  ) {
+    throw new InvalidParamError(
+      `On-chain verification needs the chainId of a Reclaim contract, got ${chainId}`
+    );
+  }
+
+  // Created on first use, since manual-verify proofs don't need a beacon,
+  // and shared so every proof reuses its epoch cache
+  let beacon = options.beacon;
+  const getBeacon = () => {
+    if (!beacon) {
+      beacon = makeBeacon(chainId, {
+        store: options.beaconCache,
+        rpcUrls: options.rpcUrls,
+        rpcQuorum: options.rpcQuorum,
+      });
+    }
+    return beacon;
+  };
+  return { chainId, getBeacon, options };
+}
+
+async function verifySingleProof(
+  proof: Proof,
+  verifier: Verifier
+): Promise<ProofVerificationReport> {
+  const { chainId, options } = verifier;
+  const mode = options.mode ?? 'local';
+  const startedAt = Date.now();
+  const report: ProofVerificationReport = {
+    isVerified: false,
+    chainId,
+    epoch: proof.claimData?.epoch,
+    claimedIdentifier: proof.identifier,
+    expectedWitnesses: [],
+    recoveredSigners: [],
+    missingSigners: [],
+    unknownSigners: [],
+    timing: { startedAt, durationMs: 0 },
+  };
+  const fail = (
+    failureCode: VerificationFailureCode,
+    failureReason: string
+  ): ProofVerificationReport => {
+    logger.info(`Error verifying proof: ${failureReason}`);
+    report.failureCode = failureCode;
+    report.failureReason = failureReason;
+    report.timing.durationMs = Date.now() - startedAt;
+    return report;
+  };
+
+  if (!proof.signatures?.length) {
+    return fail('NO_SIGNATURES', 'No signatures');
+  }
+
+  let localFailure: VerificationFailure | undefined;
+  if (mode !== 'onchain') {
+    localFailure = await verifySignaturesLocally(proof, verifier, report);
+    // Without the witnesses there is no local result to compare in 'both' mode
+    if (
+      localFailure &&
+      (mode === 'local' ||
+        localFailure.code === 'BEACON_UNAVAILABLE' ||
+        localFailure.code === 'EPOCH_NOT_IN_SNAPSHOT')
+    ) {
+      return fail(localFailure.code, localFailure.reason);
+    }
+  }
+
+  if (mode !== 'local') {
+    try {
+      report.onchain = await verifyClaimOnchain(
+        transformForOnchain(proof),
+        chainId as number,
+        options
+      );
+    } catch (e) {
+      return fail(
+        'ONCHAIN_UNAVAILABLE',
+        e instanceof Error ? e.message : String(e)
+      );
+    }
+    const { isVerified, revertReason } = report.onchain;
+    if (mode === 'both' && isVerified === Boolean(localFailure)) {
+      return fail(
+        'VERIFICATION_MISMATCH',
+        localFailure
+          ? `Contract accepted a proof that failed locally: ${localFailure.reason}`
+          : `Contract rejected a proof that passed locally: ${revertReason}`
+      );
+    }
+    if (localFailure) {
+      return fail(localFailure.code, localFailure.reason);
+    }
+    if (!isVerified) {
+      return fail(
+        'ONCHAIN_REVERTED',
+        `Contract rejected the proof: ${revertReason}`
+      );
     }
-    return true;
   }
 
-  const proof = proofOrProofs;
+  const owner = proof.claimData.owner.toLowerCase();
+  const { expectedOwner } = options;
+  if (
+    expectedOwner !== undefined &&
+    !(typeof expectedOwner === 'function'
+      ? expectedOwner(owner)
+      : expectedOwner.toLowerCase() === owner)
+  ) {
+    return fail('OWNER_MISMATCH', `Proof is owned by ${owner}`);
+  }
 
-  if (!proof.signatures.length) {
-    throw new SignatureNotFoundError('No signatures');
+  const staleReason = getStaleProofReason(
+    proof.claimData.timestampS,
+    options,
+    startedAt
+  );
+  if (staleReason) {
+    return fail('STALE_PROOF', staleReason);
   }
 
-  try {
-    // check if witness array exist and first element is manual-verify
-    let witnesses = [];
-    if (proof.witnesses.length && proof.witnesses[0]?.url === 'manual-verify') {
-      witnesses.push(proof.witnesses[0].id);
-    } else {
-      witnesses = await getWitnessesForClaim(
+  report.isVerified = true;
+  report.timing.durationMs = Date.now() - startedAt;
+  return report;
+}
+
+// Checks the witnesses and signatures of a proof, filling in the report as it goes
+async function verifySignaturesLocally(
+  proof: Proof,
+  { getBeacon, options }: Verifier,
+  report: ProofVerificationReport
+): Promise<VerificationFailure | undefined> {
+  const errorReason = (e: unknown) =>
+    e instanceof Error ? e.message : String(e);
+
+  // check if witness array exist and first element is manual-verify
+  const { trustedManualVerifiers = [] } = options.witnessPolicy ?? {};
+  if (proof.witnesses?.length && proof.witnesses[0]?.url === 'manual-verify') {
+    // The proof names its own verifier, so only listed verifiers are accepted
+    const verifier = proof.witnesses[0].id.toLowerCase();
+    if (
+      !trustedManualVerifiers.some(
+        (address) => address.toLowerCase() === verifier
+      )
+    ) {
+      return {
+        code: 'UNTRUSTED_MANUAL_VERIFIER',
+        reason: `Manual verifier ${verifier} is not trusted`,
+      };
+    }
+    report.expectedWitnesses = [verifier];
+  } else {
+    const lookupStartedAt = Date.now();
+    try {
+      report.expectedWitnesses = await getWitnessesForClaim(
         proof.claimData.epoch,
         proof.identifier,
-        proof.claimData.timestampS
+        proof.claimData.timestampS,
+        getBeacon()
       );
+    } catch (e) {
+      return {
+        code:
+          e instanceof EpochNotInSnapshotError
+            ? 'EPOCH_NOT_IN_SNAPSHOT'
+            : 'BEACON_UNAVAILABLE',
+        reason: errorReason(e),
+      };
+    } finally {
+      report.timing.witnessLookupMs = Date.now() - lookupStartedAt;
     }
-    // then hash the claim info with the encoded ctx to get the identifier
-    const calculatedIdentifier = getIdentifierFromClaimInfo({
+  }
+
+  // then hash the claim info with the encoded ctx to get the identifier
+  try {
+    report.calculatedIdentifier = getIdentifierFromClaimInfo({
       parameters: JSON.parse(
         canonicalize(proof.claimData.parameters) as string
       ),
       provider: proof.claimData.provider,
       context: proof.claimData.context,
     });
-    proof.identifier = replaceAll(proof.identifier, '"', '');
-    // check if the identifier matches the one in the proof
-    if (calculatedIdentifier !== proof.identifier) {
-      throw new ProofNotVerifiedError('Identifier Mismatch');
-    }
+  } catch (e) {
+    return { code: 'MALFORMED_PROOF', reason: errorReason(e) };
+  }
+  proof.identifier = replaceAll(proof.identifier, '"', '');
+  report.claimedIdentifier = proof.identifier;
+  // check if the identifier matches the one in the proof
+  if (report.calculatedIdentifier !== proof.identifier) {
+    return { code: 'IDENTIFIER_MISMATCH', reason: 'Identifier Mismatch' };
+  }
 
+  try {
     const signedClaim: SignedClaim = {
       claim: {
         ...proof.claimData,
@@ -104,41 +391,94 @@ export async function verifyProof(
         return ethers.utils.arrayify(signature);
       }),
     };
-
-    assertValidSignedClaim(signedClaim, witnesses);
-  } catch (e: Error | unknown) {
-    logger.info(
-      `Error verifying proof: ${e instanceof Error ? e.message : String(e)}`
-    );
-    return false;
+    report.recoveredSigners = recoverSignersOfSignedClaim(signedClaim);
+  } catch (e) {
+    return { code: 'INVALID_SIGNATURE', reason: errorReason(e) };
   }
 
-  return true;
+  const { missingSigners, unknownSigners, failure } = evaluateWitnessSignatures(
+    report.expectedWitnesses,
+    report.recoveredSigners,
+    options.witnessPolicy
+  );
+  report.missingSigners = missingSigners;
+  report.unknownSigners = unknownSigners;
+  return failure;
 }
 
-export function transformForOnchain(proof: Proof): {
-  claimInfo: any;
-  signedClaim: any;
-} {
-  const claimInfoBuilder = new Map([
-    ['context', proof.claimData.context],
-    ['parameters', proof.claimData.parameters],
-    ['provider', proof.claimData.provider],
-  ]);
-  const claimInfo = Object.fromEntries(claimInfoBuilder);
-  const claimBuilder = new Map<string, number | string>([
-    ['epoch', proof.claimData.epoch],
-    ['identifier', proof.claimData.identifier],
-    ['owner', proof.claimData.owner],
-    ['timestampS', proof.claimData.timestampS],
-  ]);
-  const signedClaim = {
-    claim: Object.fromEntries(claimBuilder),
-    signatures: proof.signatures,
+export function transformForOnchain(proof: Proof): OnchainProof;
+export function transformForOnchain(proofs: Proof[]): OnchainProof[];
+export function transformForOnchain(
+  proofOrProofs: Proof | Proof[]
+): OnchainProof | OnchainProof[] {
+  if (Array.isArray(proofOrProofs)) {
+    return proofOrProofs.map((proof) => transformForOnchain(proof));
+  }
+  const { claimData, signatures } = proofOrProofs;
+  const claimInfo: OnchainClaimInfo = {
+    provider: claimData.provider,
+    parameters: claimData.parameters,
+    context: claimData.context,
+  };
+  const signedClaim: OnchainSignedClaim = {
+    claim: {
+      identifier: claimData.identifier,
+      owner: claimData.owner,
+      timestampS: claimData.timestampS,
+      epoch: claimData.epoch,
+    },
+    signatures,
   };
   return { claimInfo, signedClaim };
 }
 
+// Arguments of each contract method, in ABI order
+const ONCHAIN_METHOD_ARGS: {
+  [method in OnchainProofMethod]: (proof: OnchainProof) => unknown[];
+} = {
+  assertValidEpochAndSignedClaim: ({ claimInfo, signedClaim }) => [
+    signedClaim.claim.epoch,
+    claimInfo,
+    signedClaim.claim,
+    signedClaim.signatures,
+  ],
+};
+
+/**
+ * Encodes the calldata of a Reclaim contract call that checks a proof
+ * @param proofOrProofs - The proof, or proofs to encode one call each
+ * @param method - The contract method to call (default: assertValidEpochAndSignedClaim)
+ * @returns The ABI-encoded calldata, or one per proof
+ */
+export function encodeOnchainCalldata(
+  proof: Proof,
+  method?: OnchainProofMethod
+): string;
+export function encodeOnchainCalldata(
+  proofs: Proof[],
+  method?: OnchainProofMethod
+): string[];
+export function encodeOnchainCalldata(
+  proofOrProofs: Proof | Proof[],
+  method: OnchainProofMethod = 'assertValidEpochAndSignedClaim'
+): string | string[] {
+  if (!(method in ONCHAIN_METHOD_ARGS)) {
+    throw new InvalidParamError(
+      `method passed to encodeOnchainCalldata must be one of ${Object.keys(
+        ONCHAIN_METHOD_ARGS
+      ).join(', ')}.`
+    );
+  }
+  const encode = (proof: Proof) =>
+    reclaimInterface.encodeFunctionData(
+      method,
+      ONCHAIN_METHOD_ARGS[method](transformForOnchain(proof))
+    );
+  return Array.isArray(proofOrProofs)
+    ? proofOrProofs.map(encode)
+    : encode(proofOrProofs);
+}
+
 export class ReclaimProofRequest {
   // Private class properties
   private applicationId: string;
@@ -153,11 +493,8 @@ export class ReclaimProofRequest {
   private parameters: { [key: string]: string };
   private providerId: string;
   private redirectUrl?: string;
-  private intervals: Map<string, NodeJS.Timer> = new Map();
   private timeStamp: string;
   private sdkVersion: string;
-  private lastFailureTime?: number;
-  private readonly FAILURE_TIMEOUT = 30000;
 
   // Private constructor
   private constructor(
@@ -185,7 +522,7 @@ export class ReclaimProofRequest {
   // Static initialization methods
   static async init(
     applicationId: string,
-    appSecret: string,
+    appSecretOrSigner: string | ethers.Signer,
     providerId: string,
     options?: ProofRequestOptions
   ): Promise<ReclaimProofRequest> {
@@ -194,10 +531,10 @@ export class ReclaimProofRequest {
         [
           { paramName: 'applicationId', input: applicationId, isString: true },
           { paramName: 'providerId', input: providerId, isString: true },
-          { paramName: 'appSecret', input: appSecret, isString: true },
         ],
         'the constructor'
       );
+      validateAppSecretOrSigner(appSecretOrSigner, 'the constructor');
 
       // check if options is provided and validate each property of options
       if (options) {
@@ -224,6 +561,18 @@ export class ReclaimProofRequest {
             'the constructor'
           );
         }
+        if (options.transport !== undefined) {
+          validateTransport(options.transport, 'the constructor');
+        }
+        if (options.retry !== undefined) {
+          validateRetryPolicy(options.retry, 'the constructor');
+        }
+        if (options.endpoints !== undefined) {
+          validateEndpoints(options.endpoints, 'the constructor');
+        }
+        if (options.polling !== undefined) {
+          validatePollingOptions(options.polling, 'the constructor');
+        }
       }
 
       const proofRequestInstance = new ReclaimProofRequest(
@@ -232,14 +581,17 @@ export class ReclaimProofRequest {
         options
       );
 
-      const signature = await proofRequestInstance.generateSignature(appSecret);
+      const signature = await proofRequestInstance.generateSignature(
+        appSecretOrSigner
+      );
       proofRequestInstance.setSignature(signature);
 
       const data = await initSession(
         providerId,
         applicationId,
         proofRequestInstance.timeStamp,
-        signature
+        signature,
+        options
       );
       proofRequestInstance.sessionId = data.sessionId;
 
@@ -254,7 +606,8 @@ export class ReclaimProofRequest {
   }
 
   static async fromJsonString(
-    jsonString: string
+    jsonString: string,
+    overrides?: ProofRequestOptions
   ): Promise<ReclaimProofRequest> {
     try {
       const {
@@ -299,10 +652,31 @@ export class ReclaimProofRequest {
         validateParameters(parameters);
       }
 
+      // Runtime-only options such as a custom transport are not serialized,
+      // so they can be supplied again when restoring the request
+      const restoredOptions =
+        options || overrides ? { ...options, ...overrides } : undefined;
+
+      if (restoredOptions?.endpoints) {
+        validateEndpoints(restoredOptions.endpoints, 'fromJsonString');
+      }
+
+      if (restoredOptions?.transport) {
+        validateTransport(restoredOptions.transport, 'fromJsonString');
+      }
+
+      if (restoredOptions?.retry) {
+        validateRetryPolicy(restoredOptions.retry, 'fromJsonString');
+      }
+
+      if (restoredOptions?.polling) {
+        validatePollingOptions(restoredOptions.polling, 'fromJsonString');
+      }
+
       const proofRequestInstance = new ReclaimProofRequest(
         applicationId,
         providerId,
-        options
+        restoredOptions
       );
       proofRequestInstance.sessionId = sessionId;
       proofRequestInstance.context = context;
@@ -322,6 +696,49 @@ export class ReclaimProofRequest {
     }
   }
 
+  // Resumes every unfinished session saved in the store by startSession.
+  // Expired or unreadable sessions are removed instead of being resumed
+  static async resumePending(
+    store: SessionStore,
+    params:
+      | StartSessionParams
+      | ((request: ReclaimProofRequest) => StartSessionParams),
+    overrides?: ProofRequestOptions
+  ): Promise<ResumedSession[]> {
+    validateSessionStore(store, 'resumePending');
+
+    const resumed: ResumedSession[] = [];
+    for (const { sessionId, session } of await loadSessions(store)) {
+      const remainingMs = session ? session.expiresAt - Date.now() : 0;
+      if (!(remainingMs > 0)) {
+        logger.info(`Removing expired or unreadable session ${sessionId}`);
+        await removeSession(store, sessionId);
+        continue;
+      }
+
+      try {
+        const request = await ReclaimProofRequest.fromJsonString(
+          (session as StoredSession).request,
+          overrides
+        );
+        const sessionParams =
+          typeof params === 'function' ? params(request) : params;
+        const handle = await request.startSession({
+          ...sessionParams,
+          store,
+          timeoutMs: remainingMs,
+        });
+        resumed.push({ request, session: handle });
+      } catch (error) {
+        logger.info(`Failed to resume session ${sessionId}`, error);
+        await removeSession(store, sessionId);
+      }
+    }
+
+    logger.info(`Resumed ${resumed.length} pending sessions`);
+    return resumed;
+  }
+
   // Setter methods
   setAppCallbackUrl(url: string): void {
     validateURL(url, 'setAppCallbackUrl');
@@ -366,10 +783,7 @@ export class ReclaimProofRequest {
         [{ input: this.sessionId, paramName: 'sessionId', isString: true }],
         'getAppCallbackUrl'
       );
-      return (
-        this.appCallbackUrl ||
-        `${constants.DEFAULT_RECLAIM_CALLBACK_URL}${this.sessionId}`
-      );
+      return this.appCallbackUrl || this.getDefaultCallbackUrl();
     } catch (error) {
       logger.info('Error getting app callback url', error);
       throw new GetAppCallbackUrlError(
@@ -385,7 +799,8 @@ export class ReclaimProofRequest {
         [{ input: this.sessionId, paramName: 'sessionId', isString: true }],
         'getStatusUrl'
       );
-      return `${constants.DEFAULT_RECLAIM_STATUS_URL}${this.sessionId}`;
+      const { statusUrl } = resolveEndpoints(this.options?.endpoints);
+      return `${statusUrl}${this.sessionId}`;
     } catch (error) {
       logger.info('Error fetching Status Url', error);
       throw new GetStatusUrlError('Error fetching status url', error as Error);
@@ -393,6 +808,11 @@ export class ReclaimProofRequest {
   }
 
   // Private helper methods
+  private getDefaultCallbackUrl(): string {
+    const { callbackUrl } = resolveEndpoints(this.options?.endpoints);
+    return `${callbackUrl}${this.sessionId}`;
+  }
+
   private setSignature(signature: string): void {
     try {
       validateFunctionParams(
@@ -409,9 +829,15 @@ export class ReclaimProofRequest {
     }
   }
 
-  private async generateSignature(applicationSecret: string): Promise<string> {
+  // A Signer lets the secret stay in a keystore or on a backend instead of in the app
+  private async generateSignature(
+    appSecretOrSigner: string | ethers.Signer
+  ): Promise<string> {
     try {
-      const wallet = new ethers.Wallet(applicationSecret);
+      const signer =
+        typeof appSecretOrSigner === 'string'
+          ? new ethers.Wallet(appSecretOrSigner)
+          : appSecretOrSigner;
       const canonicalData = canonicalize({
         providerId: this.providerId,
         timestamp: this.timeStamp,
@@ -427,25 +853,20 @@ export class ReclaimProofRequest {
         new TextEncoder().encode(canonicalData)
       );
 
-      return await wallet.signMessage(ethers.utils.arrayify(messageHash));
+      return await signer.signMessage(ethers.utils.arrayify(messageHash));
     } catch (err) {
       logger.info(
         `Error generating proof request for applicationId: ${this.applicationId}, providerId: ${this.providerId}, signature: ${this.signature}, timeStamp: ${this.timeStamp}`,
         err
       );
       throw new SignatureGeneratingError(
-        `Error generating signature for applicationSecret: ${applicationSecret}`
+        typeof appSecretOrSigner === 'string'
+          ? `Error generating signature for applicationSecret: ${appSecretOrSigner}`
+          : 'Error generating signature with the provided signer'
       );
     }
   }
 
-  private clearInterval(): void {
-    if (this.sessionId && this.intervals.has(this.sessionId)) {
-      clearInterval(this.intervals.get(this.sessionId) as NodeJS.Timeout);
-      this.intervals.delete(this.sessionId);
-    }
-  }
-
   // Public methods
   toJsonString(): string {
     return JSON.stringify({
@@ -491,7 +912,11 @@ export class ReclaimProofRequest {
         sdkVersion: this.sdkVersion,
       };
 
-      await updateSession(this.sessionId, SessionStatus.SESSION_STARTED);
+      await updateSession(
+        this.sessionId,
+        SessionStatus.SESSION_STARTED,
+        this.options
+      );
       if (this.options?.useAppClip) {
         let template = encodeURIComponent(JSON.stringify(templateData));
         template = replaceAll(template, '(', '%28');
@@ -499,17 +924,21 @@ export class ReclaimProofRequest {
 
         // check if the device is running on iOS or Android
         const isIos = Platform.OS === 'ios';
+        const endpoints = resolveEndpoints(this.options?.endpoints);
         if (!isIos) {
-          const instantAppUrl = `https://share.reclaimprotocol.org/verify/?template=${template}`;
+          const instantAppUrl = `${endpoints.instantAppUrl}${template}`;
           logger.info('Instant App Url created successfully: ' + instantAppUrl);
           return instantAppUrl;
         } else {
-          const appClipUrl = `https://appclip.apple.com/id?p=org.reclaimprotocol.app.clip&template=${template}`;
+          const appClipUrl = `${endpoints.appClipUrl}${template}`;
           logger.info('App Clip Url created successfully: ' + appClipUrl);
           return appClipUrl;
         }
       } else {
-        const link = await createLinkWithTemplateData(templateData);
+        const link = await createLinkWithTemplateData(
+          templateData,
+          this.options
+        );
         logger.info('Request Url created successfully: ' + link);
         return link;
       }
@@ -522,7 +951,13 @@ export class ReclaimProofRequest {
   async startSession({
     onSuccess,
     onError,
-  }: StartSessionParams): Promise<void> {
+    onStatusChange,
+    signal,
+    timeoutMs,
+    store,
+    transport: statusTransport = 'poll',
+    verification = {},
+  }: StartSessionParams): Promise<SessionHandle> {
     if (!this.sessionId) {
       const message =
         "Session can't be started due to undefined value of sessionId";
@@ -530,93 +965,332 @@ export class ReclaimProofRequest {
       throw new SessionNotStartedError(message);
     }
 
+    if (
+      timeoutMs !== undefined &&
+      (typeof timeoutMs !== 'number' || !(timeoutMs > 0))
+    ) {
+      throw new InvalidParamError(
+        'timeoutMs passed to startSession must be a positive number.'
+      );
+    }
+
+    if (store !== undefined) {
+      validateSessionStore(store, 'startSession');
+    }
+
+    if (!['poll', 'sse', 'websocket'].includes(statusTransport)) {
+      throw new InvalidParamError(
+        "transport passed to startSession must be 'poll', 'sse' or 'websocket'."
+      );
+    }
+
+    const { notBeforeRequestCreation, ...verifyOptions } = verification;
+    const verifyProofOptions: VerifyProofOptions = {
+      ...verifyOptions,
+      notBefore: notBeforeRequestCreation ? Number(this.timeStamp) : undefined,
+    };
+    validateVerifyProofOptions(verifyProofOptions, 'startSession');
+
     logger.info('Starting session');
-    const interval = setInterval(async () => {
-      try {
-        const statusUrlResponse = await fetchStatusUrl(this.sessionId);
+    const sessionId = this.sessionId;
+    const polling = resolvePollingOptions(this.options?.polling);
+    const sessionTimeoutMs = timeoutMs ?? polling.sessionTimeoutMs;
+    if (store) {
+      await saveSession(store, sessionId, {
+        request: this.toJsonString(),
+        expiresAt: Date.now() + sessionTimeoutMs,
+      });
+    }
+    let pollTimer: ReturnType<typeof setTimeout> | undefined;
+    let stream: StatusStream | undefined;
+    let pollDelay = polling.initialIntervalMs;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    let isFinished = false;
+    // Fails the session once PROOF_GENERATION_FAILED lasts for the grace period.
+    // A timer is needed since streams send the failed status only once
+    let failureTimer: ReturnType<typeof setTimeout> | undefined;
+    let lastStatus: SessionStatus | undefined;
+
+    const done = createSessionCompletion();
+
+    const onAbort = () => {
+      finish(new SessionCancelledError(`Session ${sessionId} was cancelled`));
+    };
 
-        if (!statusUrlResponse.session) return;
-        // Reset failure time if status is not PROOF_GENERATION_FAILED
+    const finish = (error?: Error) => {
+      if (isFinished) return;
+      isFinished = true;
+      clearTimeout(pollTimer);
+      clearTimeout(timeout);
+      clearTimeout(failureTimer);
+      stream?.close();
+      signal?.removeEventListener('abort', onAbort);
+      if (store) {
+        removeSession(store, sessionId).catch((err) =>
+          logger.info(`Failed to remove stored session ${sessionId}`, err)
+        );
+      }
+      if (error) {
+        if (onError) {
+          onError(error);
+        }
+        done.reject(error);
+      } else {
+        done.resolve();
+      }
+    };
+
+    const handle: SessionHandle = { cancel: onAbort, done: done.promise };
+
+    if (signal?.aborted) {
+      onAbort();
+      return handle;
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    // Polls are chained so a slow request never overlaps the next one
+    const schedulePoll = () => {
+      if (isFinished) return;
+      pollTimer = setTimeout(poll, pollDelay);
+      pollDelay = Math.min(
+        pollDelay * polling.backoffFactor,
+        polling.maxIntervalMs
+      );
+    };
+
+    // Handles a status update, whether it was polled or streamed
+    const handleStatus = async (statusUrlResponse: StatusUrlResponse) => {
+      if (isFinished || !statusUrlResponse.session) return;
+
+      const status = statusUrlResponse.session.statusV2;
+      if (status !== lastStatus) {
+        const previous = lastStatus;
+        lastStatus = status;
+        logger.info(`Session status changed from ${previous} to ${status}`);
+        // Poll at the initial rate again while the session is progressing
+        pollDelay = polling.initialIntervalMs;
+        if (onStatusChange) {
+          onStatusChange(status, previous);
+        }
+      }
+
+      // Reset the failure timer if status is not PROOF_GENERATION_FAILED
+      if (
+        statusUrlResponse.session.statusV2 !==
+        SessionStatus.PROOF_GENERATION_FAILED
+      ) {
+        clearTimeout(failureTimer);
+        failureTimer = undefined;
+      }
+
+      // Start the failure timeout
+      if (
+        statusUrlResponse.session.statusV2 ===
+        SessionStatus.PROOF_GENERATION_FAILED
+      ) {
+        if (!failureTimer) {
+          failureTimer = setTimeout(() => {
+            finish(
+              new ProviderFailedError(
+                'Proof generation failed - timeout reached'
+              )
+            );
+          }, polling.failureGracePeriodMs);
+        }
+        return; // Continue monitoring if under timeout
+      }
+
+      const isDefaultCallbackUrl =
+        this.getAppCallbackUrl() === this.getDefaultCallbackUrl();
+
+      if (isDefaultCallbackUrl) {
         if (
-          statusUrlResponse.session.statusV2 !==
-          SessionStatus.PROOF_GENERATION_FAILED
+          statusUrlResponse.session.proofs &&
+          statusUrlResponse.session.proofs.length > 0
         ) {
-          this.lastFailureTime = undefined;
+          if (!statusUrlResponse.session.proofs[0]) {
+            throw new ProofNotFoundError();
+          }
+          const proofs = statusUrlResponse.session.proofs;
+          const verified = await verifyProof(proofs, verifyProofOptions);
+          if (!verified) {
+            logger.info(`Proofs not verified: ${JSON.stringify(proofs)}`);
+            throw new ProofNotVerifiedError();
+          }
+          // A valid proof for other inputs must not complete this request
+          for (const proof of proofs) {
+            assertProofMatchesRequest(proof, {
+              parameters: this.parameters,
+              context: this.context,
+            });
+          }
+          if (isFinished) return;
+          if (onSuccess) {
+            if (proofs.length === 1) {
+              onSuccess(proofs[0] as Proof);
+            } else {
+              onSuccess(proofs as Proof[]);
+            }
+          }
+          finish();
         }
-
-        // Check for failure timeout
+      } else {
         if (
           statusUrlResponse.session.statusV2 ===
-          SessionStatus.PROOF_GENERATION_FAILED
+          SessionStatus.PROOF_SUBMISSION_FAILED
         ) {
-          const currentTime = Date.now();
-          if (!this.lastFailureTime) {
-            this.lastFailureTime = currentTime;
-          } else if (
-            currentTime - this.lastFailureTime >=
-            this.FAILURE_TIMEOUT
-          ) {
-            throw new ProviderFailedError(
-              'Proof generation failed - timeout reached'
+          throw new ProofSubmissionFailedError();
+        }
+        if (
+          statusUrlResponse.session.statusV2 === SessionStatus.PROOF_SUBMITTED
+        ) {
+          if (onSuccess) {
+            onSuccess(
+              'Proof submitted successfully to the custom callback url'
             );
           }
-          return; // Continue monitoring if under timeout
+          finish();
         }
+      }
+    };
 
-        const isDefaultCallbackUrl =
-          this.getAppCallbackUrl() ===
-          `${constants.DEFAULT_RECLAIM_CALLBACK_URL}${this.sessionId}`;
-
-        if (isDefaultCallbackUrl) {
-          if (
-            statusUrlResponse.session.proofs &&
-            statusUrlResponse.session.proofs.length > 0
-          ) {
-            if (!statusUrlResponse.session.proofs[0]) {
-              throw new ProofNotFoundError();
-            }
-            const proofs = statusUrlResponse.session.proofs;
-            const verified = await verifyProof(proofs);
-            if (!verified) {
-              logger.info(`Proofs not verified: ${JSON.stringify(proofs)}`);
-              throw new ProofNotVerifiedError();
-            }
-            if (onSuccess) {
-              if (proofs.length === 1) {
-                onSuccess(proofs[0] as Proof);
-              } else {
-                onSuccess(proofs as Proof[]);
-              }
-            }
-            this.clearInterval();
-          }
+    const poll = async () => {
+      try {
+        const statusUrlResponse = await fetchStatusUrl(sessionId, this.options);
+        await handleStatus(statusUrlResponse);
+      } catch (e) {
+        // Connectivity drops, e.g. while the user is in the verifier app, end the
+        // session only through its timeout
+        if (e instanceof NetworkError) {
+          logger.info(`Status poll for session ${sessionId} failed`, e);
         } else {
-          if (
-            statusUrlResponse.session.statusV2 ===
-            SessionStatus.PROOF_SUBMISSION_FAILED
-          ) {
-            throw new ProofSubmissionFailedError();
-          }
-          if (
-            statusUrlResponse.session.statusV2 === SessionStatus.PROOF_SUBMITTED
-          ) {
-            if (onSuccess) {
-              onSuccess(
-                'Proof submitted successfully to the custom callback url'
-              );
-            }
-            this.clearInterval();
-          }
+          finish(e as Error);
         }
-      } catch (e) {
-        if (onError) {
-          onError(e as Error);
+      } finally {
+        schedulePoll();
+      }
+    };
+
+    // Streamed updates are handled one at a time, like polls
+    let pendingUpdate = Promise.resolve();
+    const openStream = (kind: Exclude<StatusTransport, 'poll'>) => {
+      try {
+        stream = openStatusStream(
+          kind,
+          sessionId,
+          {
+            onStatus: (statusUrlResponse) => {
+              pendingUpdate = pendingUpdate
+                .then(() => handleStatus(statusUrlResponse))
+                .catch((e) => finish(e as Error));
+            },
+            // The fallback is permanent, the stream isn't reopened
+            onDisconnect: () => {
+              logger.info(`Falling back to polling for session ${sessionId}`);
+              stream = undefined;
+              schedulePoll();
+            },
+          },
+          this.options
+        );
+      } catch (err) {
+        logger.info(
+          `Failed to open ${kind} status stream, polling instead`,
+          err
+        );
+        schedulePoll();
+      }
+    };
+
+    if (statusTransport === 'poll') {
+      schedulePoll();
+    } else {
+      openStream(statusTransport);
+    }
+    timeout = scheduleIntervalEndingTask(sessionId, finish, sessionTimeoutMs);
+
+    return handle;
+  }
+
+  // Promise-based alternative to startSession. Rejects with the error startSession
+  // reports to onError, and resolves with no proofs when a custom callback url is set
+  async waitForProofs({
+    timeoutMs,
+    signal,
+    transport,
+    verification,
+  }: WaitForProofsOptions = {}): Promise<Proof[]> {
+    let proofs: Proof[] = [];
+    const session = await this.startSession({
+      onSuccess: (result) => {
+        if (typeof result !== 'string') {
+          proofs = Array.isArray(result) ? result : [result];
         }
-        this.clearInterval();
+      },
+      onError: () => {},
+      signal,
+      timeoutMs,
+      transport,
+      verification,
+    });
+    await session.done;
+    return proofs;
+  }
+
+  // Yields every status transition of a new session. Iteration ends when the session
+  // succeeds, throws when it fails, and cancels the session when the consumer stops early
+  async *statusUpdates({
+    signal,
+    transport,
+    verification,
+  }: StatusUpdatesOptions = {}): AsyncGenerator<SessionStatus, void> {
+    const statuses: SessionStatus[] = [];
+    let isDone = false;
+    let failure: Error | undefined;
+    let wakeUp: (() => void) | undefined;
+    const notify = () => {
+      wakeUp?.();
+      wakeUp = undefined;
+    };
+
+    const session = await this.startSession({
+      onSuccess: () => {},
+      onError: () => {},
+      onStatusChange: (status) => {
+        statuses.push(status);
+        notify();
+      },
+      signal,
+      transport,
+      verification,
+    });
+    session.done.then(
+      () => {
+        isDone = true;
+        notify();
+      },
+      (error: Error) => {
+        failure = error;
+        isDone = true;
+        notify();
       }
-    }, 3000);
+    );
 
-    this.intervals.set(this.sessionId, interval);
-    scheduleIntervalEndingTask(this.sessionId, this.intervals, onError);
+    try {
+      while (statuses.length || !isDone) {
+        if (statuses.length) {
+          yield statuses.shift() as SessionStatus;
+        } else {
+          await new Promise<void>((resolve) => {
+            wakeUp = resolve;
+          });
+        }
+      }
+      if (failure) {
+        throw failure;
+      }
+    } finally {
+      session.cancel();
+    }
   }
 }
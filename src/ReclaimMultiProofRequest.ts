@@ -0,0 +1,290 @@
+import type { Signer } from 'ethers';
+import type { Proof } from './utils/interfaces';
+import type {
+  MultiProofPropertiesJSON,
+  MultiProviderProgress,
+  ProofRequestOptions,
+  ProofsByProvider,
+  SessionHandle,
+  StartMultiProviderSessionParams,
+} from './utils/types';
+import { ReclaimProofRequest } from './Reclaim';
+import { createSessionCompletion } from './utils/helper';
+import {
+  InitError,
+  InvalidParamError,
+  SessionCancelledError,
+} from './utils/errors';
+import { validateFunctionParams } from './utils/validationUtils';
+import loggerModule from './utils/logger';
+const logger = loggerModule.logger;
+
+// Requests proofs from several providers in one user journey. Every provider
+// gets its own session and signature, since both are scoped to a single provider
+export class ReclaimMultiProofRequest {
+  private requests: Map<string, ReclaimProofRequest>;
+
+  // Private constructor
+  private constructor(requests: Map<string, ReclaimProofRequest>) {
+    this.requests = requests;
+  }
+
+  // Static initialization methods
+  static async init(
+    applicationId: string,
+    appSecretOrSigner: string | Signer,
+    providerIds: string[],
+    options?: ProofRequestOptions
+  ): Promise<ReclaimMultiProofRequest> {
+    try {
+      if (!Array.isArray(providerIds) || providerIds.length === 0) {
+        throw new InvalidParamError(
+          'providerIds passed to the constructor must be a non-empty array.'
+        );
+      }
+      validateFunctionParams(
+        providerIds.map((providerId, index) => ({
+          paramName: `providerIds[${index}]`,
+          input: providerId,
+          isString: true,
+        })),
+        'the constructor'
+      );
+      if (new Set(providerIds).size !== providerIds.length) {
+        throw new InvalidParamError(
+          'providerIds passed to the constructor must not contain duplicates.'
+        );
+      }
+
+      const requests = await Promise.all(
+        providerIds.map((providerId) =>
+          ReclaimProofRequest.init(
+            applicationId,
+            appSecretOrSigner,
+            providerId,
+            options
+          )
+        )
+      );
+
+      return new ReclaimMultiProofRequest(
+        new Map(
+          providerIds.map((providerId, i) => [
+            providerId,
+            requests[i] as ReclaimProofRequest,
+          ])
+        )
+      );
+    } catch (error) {
+      logger.info(
+        'Failed to initialize ReclaimMultiProofRequest',
+        error as Error
+      );
+      throw new InitError(
+        'Failed to initialize ReclaimMultiProofRequest',
+        error as Error
+      );
+    }
+  }
+
+  static async fromJsonString(
+    jsonString: string,
+    overrides?: ProofRequestOptions
+  ): Promise<ReclaimMultiProofRequest> {
+    let requestsJson: MultiProofPropertiesJSON['requests'];
+    try {
+      requestsJson = (JSON.parse(jsonString) as MultiProofPropertiesJSON)
+        .requests;
+      if (!Array.isArray(requestsJson) || requestsJson.length === 0) {
+        throw new InvalidParamError('requests must be a non-empty array');
+      }
+    } catch (error) {
+      logger.info('Failed to parse JSON string in fromJsonString:', error);
+      throw new InvalidParamError(
+        'Invalid JSON string provided to fromJsonString'
+      );
+    }
+    const providerIds = requestsJson.map(({ providerId }) => providerId);
+    if (new Set(providerIds).size !== providerIds.length) {
+      throw new InvalidParamError(
+        'requests passed to fromJsonString must not share a providerId.'
+      );
+    }
+
+    const requests = await Promise.all(
+      requestsJson.map((requestJson) =>
+        ReclaimProofRequest.fromJsonString(
+          JSON.stringify(requestJson),
+          overrides
+        )
+      )
+    );
+    return new ReclaimMultiProofRequest(
+      new Map(
+        requestsJson.map((requestJson, i) => [
+          requestJson.providerId,
+          requests[i] as ReclaimProofRequest,
+        ])
+      )
+    );
+  }
+
+  // Setter methods
+  setAppCallbackUrl(url: string): void {
+    this.requests.forEach((request) => request.setAppCallbackUrl(url));
+  }
+
+  setRedirectUrl(url: string): void {
+    this.requests.forEach((request) => request.setRedirectUrl(url));
+  }
+
+  addContext(address: string, message: string): void {
+    this.requests.forEach((request) => request.addContext(address, message));
+  }
+
+  // Sets the params of one provider, or of every provider when providerId is omitted
+  setParams(params: { [key: string]: string }, providerId?: string): void {
+    if (providerId === undefined) {
+      this.requests.forEach((request) => request.setParams(params));
+    } else {
+      this.getRequest(providerId).setParams(params);
+    }
+  }
+
+  // Getter methods
+  getProviderIds(): string[] {
+    return Array.from(this.requests.keys());
+  }
+
+  getRequest(providerId: string): ReclaimProofRequest {
+    const request = this.requests.get(providerId);
+    if (!request) {
+      throw new InvalidParamError(
+        `Provider ${providerId} is not part of this request`
+      );
+    }
+    return request;
+  }
+
+  async getRequestUrls(): Promise<{ [providerId: string]: string }> {
+    const urls: { [providerId: string]: string } = {};
+    for (const [providerId, request] of this.requests) {
+      urls[providerId] = await request.getRequestUrl();
+    }
+    return urls;
+  }
+
+  // Public methods
+  toJsonString(): string {
+    const json: MultiProofPropertiesJSON = {
+      requests: Array.from(this.requests.values()).map((request) =>
+        JSON.parse(request.toJsonString())
+      ),
+    };
+    return JSON.stringify(json);
+  }
+
+  // Runs the sessions of every provider. onProviderComplete reports partial
+  // completion; the first provider that fails ends the remaining sessions
+  async startSession({
+    onSuccess,
+    onError,
+    onProviderComplete,
+    onStatusChange,
+    signal,
+    timeoutMs,
+    transport,
+    verification,
+  }: StartMultiProviderSessionParams): Promise<SessionHandle> {
+    const proofs: ProofsByProvider = {};
+    const handles: SessionHandle[] = [];
+    const done = createSessionCompletion();
+    let isFinished = false;
+
+    const onAbort = () => {
+      finish(new SessionCancelledError('Multi-provider session was cancelled'));
+    };
+
+    const finish = (error?: Error) => {
+      if (isFinished) return;
+      isFinished = true;
+      signal?.removeEventListener('abort', onAbort);
+      handles.forEach((handle) => handle.cancel());
+      if (error) {
+        if (onError) {
+          onError(error);
+        }
+        done.reject(error);
+      } else {
+        if (onSuccess) {
+          onSuccess(proofs);
+        }
+        done.resolve();
+      }
+    };
+
+    const handle: SessionHandle = { cancel: onAbort, done: done.promise };
+
+    if (signal?.aborted) {
+      onAbort();
+      return handle;
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+      for (const [providerId, request] of this.requests) {
+        handles.push(
+          await request.startSession({
+            onSuccess: (result) => {
+              proofs[providerId] =
+                typeof result === 'string'
+                  ? []
+                  : ([] as Proof[]).concat(result);
+              const progress = this.getProgress(proofs);
+              logger.info(
+                `Provider ${providerId} completed, ${progress.pending.length} pending`
+              );
+              if (onProviderComplete) {
+                onProviderComplete(providerId, progress);
+              }
+              if (progress.pending.length === 0) {
+                finish();
+              }
+            },
+            onError: (error) => finish(error),
+            onStatusChange: onStatusChange
+              ? (status, previous) =>
+                  onStatusChange(providerId, status, previous)
+              : undefined,
+            timeoutMs,
+            transport,
+            verification,
+          })
+        );
+      }
+    } catch (error) {
+      // Like ReclaimProofRequest.startSession, failing to start throws instead of calling onError
+      isFinished = true;
+      signal?.removeEventListener('abort', onAbort);
+      handles.forEach((sessionHandle) => sessionHandle.cancel());
+      throw error;
+    }
+
+    // A session may have ended while the remaining ones were starting
+    if (isFinished) {
+      handles.forEach((sessionHandle) => sessionHandle.cancel());
+    }
+
+    return handle;
+  }
+
+  // Private helper methods
+  private getProgress(proofs: ProofsByProvider): MultiProviderProgress {
+    const providerIds = this.getProviderIds();
+    return {
+      completed: providerIds.filter((id) => id in proofs),
+      pending: providerIds.filter((id) => !(id in proofs)),
+      proofs: { ...proofs },
+    };
+  }
+}
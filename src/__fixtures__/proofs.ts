@@ -0,0 +1,117 @@
+import { ethers } from 'ethers';
+import canonicalize from 'canonicalize';
+import type {
+  Beacon,
+  BeaconState,
+  Proof,
+  ProviderClaimData,
+} from '../utils/interfaces';
+import type { WitnessPolicy } from '../utils/types';
+import { createSignDataForClaim, getIdentifierFromClaimInfo } from '../witness';
+
+// Deterministic key used to sign fixture proofs, never use it outside tests
+export const WITNESS_PRIVATE_KEY =
+  '0x1111111111111111111111111111111111111111111111111111111111111111';
+
+export const witnessWallet = new ethers.Wallet(WITNESS_PRIVATE_KEY);
+
+// Trusts the fixture witness as the verifier of manual-verify proofs
+export const manualVerifyPolicy: WitnessPolicy = {
+  trustedManualVerifiers: [witnessWallet.address],
+};
+
+export const OWNER_ADDRESS = '0x2222222222222222222222222222222222222222';
+
+/**
+ * Creates a proof signed by the fixture witness
+ * The proof uses the manual-verify witness so it verifies without a beacon
+ * @param claimOverrides - Claim fields to replace before signing
+ * @param signers - Wallets that sign the claim (default: the fixture witness)
+ * @returns A promise that resolves to the signed proof
+ */
+export async function createSignedProof(
+  claimOverrides: Partial<ProviderClaimData> = {},
+  signers: ethers.Wallet[] = [witnessWallet]
+): Promise<Proof> {
+  const claimInfo = {
+    provider: 'http',
+    parameters: canonicalize({
+      method: 'GET',
+      paramValues: { username: 'alice' },
+      url: 'https://example.com/profile',
+    }) as string,
+    context: canonicalize({
+      contextAddress: '0x0',
+      contextMessage: 'sample message',
+      extractedParameters: { username: 'alice' },
+    }) as string,
+    ...claimOverrides,
+  };
+  const claimData: ProviderClaimData = {
+    ...claimInfo,
+    identifier: getIdentifierFromClaimInfo(claimInfo),
+    owner: OWNER_ADDRESS,
+    timestampS: Math.floor(Date.now() / 1000),
+    epoch: 1,
+    ...claimOverrides,
+  };
+  const signData = createSignDataForClaim(claimData);
+  const signatures = await Promise.all(
+    signers.map((signer) => signer.signMessage(signData))
+  );
+
+  return {
+    identifier: claimData.identifier,
+    claimData,
+    signatures,
+    witnesses: [
+      { id: witnessWallet.address.toLowerCase(), url: 'manual-verify' },
+    ],
+    extractedParameterValues: { username: 'alice' },
+  };
+}
+
+// URL of the fixture witness when proofs are checked against a beacon
+export const WITNESS_URL = 'https://witness.example.com';
+
+/**
+ * Creates a beacon whose only epoch is attested by the fixture witness
+ * @param overrides - Beacon state fields to replace
+ * @returns The beacon
+ */
+export function createFixtureBeacon(
+  overrides: Partial<BeaconState> = {}
+): Beacon {
+  const state: BeaconState = {
+    epoch: 1,
+    witnesses: [{ id: witnessWallet.address.toLowerCase(), url: WITNESS_URL }],
+    witnessesRequiredForClaim: 1,
+    nextEpochTimestampS: Math.floor(Date.now() / 1000) + 3600,
+    ...overrides,
+  };
+  return {
+    async getState(epoch?: number) {
+      if (epoch !== undefined && epoch !== state.epoch) {
+        throw new Error(`Unknown epoch ${epoch}`);
+      }
+      return state;
+    },
+  };
+}
+
+/**
+ * Creates a proof whose witnesses are selected by a beacon instead of manual-verify
+ * @param claimOverrides - Claim fields to replace before signing
+ * @param signers - Wallets that sign the claim (default: the fixture witness)
+ * @returns A promise that resolves to the signed proof
+ */
+export async function createBeaconSignedProof(
+  claimOverrides: Partial<ProviderClaimData> = {},
+  signers: ethers.Wallet[] = [witnessWallet]
+): Promise<Proof> {
+  const proof = await createSignedProof(claimOverrides, signers);
+  return {
+    ...proof,
+    witnesses: [{ id: witnessWallet.address.toLowerCase(), url: WITNESS_URL }],
+  };
+}
@@ -0,0 +1,1237 @@
+import { jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import { Platform } from 'react-native';
+import { exportBeaconSnapshot, verifyClaimOnchain } from '../smart-contract';
+import canonicalize from 'canonicalize';
+import { Reclaim__factory as ReclaimFactory } from '../contract-types';
+import {
+  encodeOnchainCalldata,
+  ReclaimProofRequest,
+  transformForOnchain,
+  verifyProof,
+  verifyProofDetailed,
+  verifyProofWithResult,
+} from '../Reclaim';
+import { SessionStatus } from '../utils/types';
+import type {
+  HttpTransport,
+  ProofRequestOptions,
+  WebSocketLike,
+  WitnessPolicy,
+} from '../utils/types';
+import type { Proof } from '../utils/interfaces';
+import {
+  createBeaconSignedProof,
+  createFixtureBeacon,
+  createSignedProof,
+  manualVerifyPolicy,
+  OWNER_ADDRESS,
+  WITNESS_PRIVATE_KEY,
+  witnessWallet,
+} from '../__fixtures__/proofs';
+import {
+  loadSessions,
+  makeInMemorySessionStore,
+  saveSession,
+} from '../utils/sessionStore';
+
+// The contract call is stubbed, the rest of smart-contract.ts is real
+jest.mock('../smart-contract', () => ({
+  ...(jest.requireActual('../smart-contract') as object),
+  verifyClaimOnchain: jest.fn(),
+}));
+const mockedVerifyClaimOnchain = jest.mocked(verifyClaimOnchain);
+
+const SESSION_ID = 'test-session';
+
+type SessionStep = SessionStatus | { statusV2: SessionStatus; proofs: Proof[] };
+
+// Each poll consumes one step, the last step is repeated
+function createTransport(steps: SessionStep[]) {
+  const requestedUrls: string[] = [];
+  const transport: HttpTransport = async (url) => {
+    requestedUrls.push(url);
+    const step = (steps.length > 1 ? steps.shift() : steps[0]) as SessionStep;
+    const { statusV2, proofs } =
+      typeof step === 'string' ? { statusV2: step, proofs: [] } : step;
+    return {
+      ok: true,
+      status: 200,
+      json: async () => ({
+        message: 'ok',
+        session: {
+          id: '1',
+          appId: 'app',
+          httpProviderId: ['provider'],
+          sessionId: SESSION_ID,
+          statusV2,
+          proofs,
+        },
+      }),
+    };
+  };
+  return { transport, requestedUrls };
+}
+
+async function createRequest(
+  transport: HttpTransport,
+  options: ProofRequestOptions = {},
+  overrides: ProofRequestOptions = {}
+) {
+  const json = JSON.stringify({
+    applicationId: '0x0000000000000000000000000000000000000001',
+    providerId: 'provider',
+    sessionId: SESSION_ID,
+    context: { contextAddress: '0x0', contextMessage: 'sample message' },
+    parameters: {},
+    signature: '0xsignature',
+    timeStamp: Date.now().toString(),
+    options: {
+      endpoints: { backendBaseUrl: 'http://localhost:8001' },
+      ...options,
+    },
+    sdkVersion: 'rn-test',
+  });
+  return ReclaimProofRequest.fromJsonString(json, { transport, ...overrides });
+}
+
+describe('verifyProof', () => {
+  it('should read the witnesses from the given beacon', async () => {
+    const proof = await createBeaconSignedProof();
+    const beacon = createFixtureBeacon();
+    const getState = jest.spyOn(beacon, 'getState');
+
+    await expect(
+      verifyProofWithResult(proof, { beacon, chainId: 8453 })
+    ).resolves.toEqual({ isVerified: true, chainId: 8453 });
+    expect(getState).toHaveBeenCalledWith(1);
+  });
+
+  it('should fail when the beacon selects other witnesses', async () => {
+    const proof = await createBeaconSignedProof();
+    const beacon = createFixtureBeacon({
+      witnesses: [
+        { id: '0x3333333333333333333333333333333333333333', url: '' },
+      ],
+    });
+
+    await expect(verifyProof(proof, { beacon })).resolves.toBe(false);
+  });
+
+  it('should record the default chain for manually verified proofs', async () => {
+    const proof = await createSignedProof();
+
+    await expect(
+      verifyProofWithResult([proof, proof], {
+        witnessPolicy: manualVerifyPolicy,
+      })
+    ).resolves.toEqual({
+      isVerified: true,
+      chainId: 11155420,
+    });
+  });
+
+  it('should verify offline against an exported snapshot', async () => {
+    const proof = await createBeaconSignedProof();
+    const snapshot = await exportBeaconSnapshot({
+      beacon: createFixtureBeacon(),
+      chainId: 8453,
+      epochs: [1],
+    });
+    const restored = JSON.parse(JSON.stringify(snapshot));
+
+    await expect(
+      verifyProofWithResult(proof, { snapshot: restored })
+    ).resolves.toEqual({ isVerified: true, chainId: 8453 });
+  });
+
+  it('should reject proofs from epochs missing in the snapshot', async () => {
+    const proof = await createBeaconSignedProof({ epoch: 2 });
+    const snapshot = await exportBeaconSnapshot({
+      beacon: createFixtureBeacon(),
+    });
+
+    await expect(verifyProof(proof, { snapshot })).rejects.toMatchObject({
+      name: 'EpochNotInSnapshotError',
+    });
+  });
+
+  it('should report why each proof failed', async () => {
+    const verified = await createBeaconSignedProof();
+    const unsigned = await createBeaconSignedProof({}, [
+      ethers.Wallet.createRandom(),
+    ]);
+    const tampered = { ...verified, identifier: '0x1234' };
+
+    const [verifiedReport, unsignedReport, tamperedReport] =
+      await verifyProofDetailed([verified, unsigned, tampered], {
+        beacon: createFixtureBeacon(),
+      });
+    const witness = witnessWallet.address.toLowerCase();
+    expect(verifiedReport).toMatchObject({
+      isVerified: true,
+      epoch: 1,
+      calculatedIdentifier: verified.identifier,
+      expectedWitnesses: [witness],
+      recoveredSigners: [witness],
+      missingSigners: [],
+    });
+    expect(unsignedReport).toMatchObject({
+      isVerified: false,
+      failureCode: 'MISSING_WITNESS_SIGNATURES',
+      missingSigners: [witness],
+    });
+    expect(tamperedReport).toMatchObject({
+      isVerified: false,
+      failureCode: 'IDENTIFIER_MISMATCH',
+      claimedIdentifier: '0x1234',
+      calculatedIdentifier: verified.identifier,
+    });
+  });
+
+  it('should throw when a proof has no signatures', async () => {
+    const proof = { ...(await createSignedProof()), signatures: [] };
+
+    await expect(verifyProof(proof)).rejects.toMatchObject({
+      name: 'SignatureNotFoundError',
+    });
+  });
+
+  it('should report the failures verifyProof throws for', async () => {
+    const unsigned = { ...(await createSignedProof()), signatures: [] };
+    const stale = await createSignedProof({
+      timestampS: Math.floor(Date.now() / 1000) - 3600,
+    });
+    const reports = await verifyProofDetailed([unsigned, stale], {
+      expectedOwner: OWNER_ADDRESS,
+      maxAgeMs: 1000 * 60 * 30,
+      witnessPolicy: manualVerifyPolicy,
+    });
+    const [otherOwner] = await verifyProofDetailed(stale, {
+      expectedOwner: witnessWallet.address,
+      witnessPolicy: manualVerifyPolicy,
+    });
+
+    expect(reports.map((report) => report.failureCode)).toEqual([
+      'NO_SIGNATURES',
+      'STALE_PROOF',
+    ]);
+    expect(otherOwner?.failureCode).toBe('OWNER_MISMATCH');
+  });
+
+  it('should reject proofs older than maxAgeMs', async () => {
+    const proof = await createSignedProof({
+      timestampS: Math.floor(Date.now() / 1000) - 3600,
+    });
+
+    await expect(
+      verifyProof(proof, {
+        maxAgeMs: 1000 * 60 * 30,
+        witnessPolicy: manualVerifyPolicy,
+      })
+    ).rejects.toMatchObject({ name: 'StaleProofError' });
+    await expect(
+      verifyProof(proof, {
+        maxAgeMs: 1000 * 60 * 30,
+        clockSkewMs: 1000 * 60 * 60,
+        witnessPolicy: manualVerifyPolicy,
+      })
+    ).resolves.toBe(true);
+  });
+
+  it('should reject proofs created in the future', async () => {
+    const proof = await createSignedProof({
+      timestampS: Math.floor(Date.now() / 1000) + 3600,
+    });
+
+    await expect(
+      verifyProof(proof, { witnessPolicy: manualVerifyPolicy })
+    ).resolves.toBe(true);
+    await expect(
+      verifyProof(proof, {
+        maxAgeMs: 1000 * 60 * 30,
+        witnessPolicy: manualVerifyPolicy,
+      })
+    ).rejects.toMatchObject({ name: 'StaleProofError' });
+    await expect(
+      verifyProof(proof, {
+        notBefore: Date.now(),
+        witnessPolicy: manualVerifyPolicy,
+      })
+    ).rejects.toMatchObject({ name: 'StaleProofError' });
+    await expect(
+      verifyProof(proof, {
+        maxAgeMs: 1000 * 60 * 30,
+        clockSkewMs: 1000 * 60 * 60,
+        witnessPolicy: manualVerifyPolicy,
+      })
+    ).resolves.toBe(true);
+  });
+
+  it('should compare the owner case-insensitively', async () => {
+    const proof = await createSignedProof();
+
+    await expect(
+      verifyProof(proof, {
+        expectedOwner: ethers.utils.getAddress(OWNER_ADDRESS),
+        witnessPolicy: manualVerifyPolicy,
+      })
+    ).resolves.toBe(true);
+    await expect(
+      verifyProof(proof, {
+        expectedOwner: (owner) => owner === OWNER_ADDRESS,
+        witnessPolicy: manualVerifyPolicy,
+      })
+    ).resolves.toBe(true);
+    await expect(
+      verifyProof(proof, {
+        expectedOwner: witnessWallet.address,
+        witnessPolicy: manualVerifyPolicy,
+      })
+    ).rejects.toMatchObject({ name: 'OwnerMismatchError' });
+  });
+
+  it('should reject a quorum larger than the number of rpcUrls', async () => {
+    const proof = await createBeaconSignedProof();
+
+    await expect(
+      verifyProof(proof, {
+        rpcUrls: ['https://rpc.example.com'],
+        rpcQuorum: 2,
+      })
+    ).rejects.toMatchObject({ name: 'InvalidParamError' });
+  });
+
+  it('should apply the witness policy', async () => {
+    const stranger = ethers.Wallet.createRandom();
+    const duplicated = await createSignedProof({}, [
+      witnessWallet,
+      witnessWallet,
+    ]);
+    const withUnknown = await createSignedProof({}, [witnessWallet, stranger]);
+    const verify = async (proof: Proof, witnessPolicy: WitnessPolicy) =>
+      (
+        await verifyProofDetailed(proof, {
+          witnessPolicy: { ...manualVerifyPolicy, ...witnessPolicy },
+        })
+      )[0]?.failureCode;
+
+    expect(await verify(duplicated, {})).toBeUndefined();
+    expect(await verify(duplicated, { rejectDuplicateSigners: true })).toBe(
+      'DUPLICATE_SIGNER'
+    );
+    expect(await verify(withUnknown, {})).toBeUndefined();
+    expect(await verify(withUnknown, { allowUnknownSigners: false })).toBe(
+      'UNKNOWN_SIGNER'
+    );
+    expect(
+      await verify(duplicated, {
+        trustedManualVerifiers: [stranger.address],
+      })
+    ).toBe('UNTRUSTED_MANUAL_VERIFIER');
+  });
+
+  it('should reject manual-verify proofs without trusted verifiers', async () => {
+    const forger = ethers.Wallet.createRandom();
+    const forged = await createSignedProof({}, [forger]);
+    forged.witnesses = [
+      { id: forger.address.toLowerCase(), url: 'manual-verify' },
+    ];
+
+    const [report] = await verifyProofDetailed(forged);
+    expect(report?.failureCode).toBe('UNTRUSTED_MANUAL_VERIFIER');
+    await expect(verifyProof(forged)).resolves.toBe(false);
+    await expect(
+      verifyProof(forged, { witnessPolicy: manualVerifyPolicy })
+    ).resolves.toBe(false);
+  });
+
+  it('should accept fewer witnesses than selected with minimumWitnesses', async () => {
+    const proof = await createBeaconSignedProof();
+    const beacon = createFixtureBeacon({
+      witnesses: [
+        { id: witnessWallet.address.toLowerCase(), url: '' },
+        { id: '0x3333333333333333333333333333333333333333', url: '' },
+      ],
+      witnessesRequiredForClaim: 2,
+    });
+
+    await expect(verifyProof(proof, { beacon })).resolves.toBe(false);
+    await expect(
+      verifyProof(proof, { beacon, witnessPolicy: { minimumWitnesses: 1 } })
+    ).resolves.toBe(true);
+  });
+
+  it('should reject chains without a Reclaim contract', async () => {
+    const proof = await createSignedProof();
+
+    await expect(verifyProof(proof, { chainId: 1 })).rejects.toMatchObject({
+      name: 'InvalidParamError',
+    });
+  });
+});
+
+describe('verifyProof on-chain modes', () => {
+  afterEach(() => {
+    mockedVerifyClaimOnchain.mockReset();
+  });
+
+  it('should check the proof with the contract in onchain mode', async () => {
+    const proof = await createBeaconSignedProof();
+    mockedVerifyClaimOnchain.mockResolvedValue({ isVerified: true });
+
+    await expect(verifyProof(proof, { mode: 'onchain' })).resolves.toBe(true);
+    expect(mockedVerifyClaimOnchain).toHaveBeenCalledWith(
+      transformForOnchain(proof),
+      11155420,
+      expect.objectContaining({ mode: 'onchain' })
+    );
+  });
+
+  it('should throw the revert reason of the contract', async () => {
+    const proof = await createBeaconSignedProof();
+    mockedVerifyClaimOnchain.mockResolvedValue({
+      isVerified: false,
+      revertReason: 'Invalid signature',
+    });
+
+    await expect(verifyProof(proof, { mode: 'onchain' })).rejects.toMatchObject(
+      {
+        name: 'ContractRevertError',
+        message: 'Contract rejected the proof: Invalid signature',
+      }
+    );
+  });
+
+  it('should report the RPC failures without throwing', async () => {
+    const proof = await createBeaconSignedProof();
+    mockedVerifyClaimOnchain.mockRejectedValue(new Error('network down'));
+
+    const [report] = await verifyProofDetailed(proof, { mode: 'onchain' });
+    expect(report).toMatchObject({
+      isVerified: false,
+      failureCode: 'ONCHAIN_UNAVAILABLE',
+      failureReason: 'network down',
+    });
+  });
+
+  it('should flag disagreements between local and on-chain results', async () => {
+    const proof = await createBeaconSignedProof();
+    const beacon = createFixtureBeacon();
+    mockedVerifyClaimOnchain.mockResolvedValue({
+      isVerified: false,
+      revertReason: 'Invalid epoch',
+    });
+
+    await expect(
+      verifyProof(proof, { mode: 'both', beacon, chainId: 11155420 })
+    ).rejects.toMatchObject({ name: 'VerificationMismatchError' });
+
+    mockedVerifyClaimOnchain.mockResolvedValue({ isVerified: true });
+    const [report] = await verifyProofDetailed(proof, {
+      mode: 'both',
+      beacon,
+      chainId: 11155420,
+    });
+    expect(report).toMatchObject({
+      isVerified: true,
+      onchain: { isVerified: true },
+    });
+  });
+
+  it('should need a chain with a Reclaim contract', async () => {
+    const proof = await createBeaconSignedProof();
+
+    await expect(
+      verifyProof(proof, { mode: 'both', beacon: createFixtureBeacon() })
+    ).rejects.toMatchObject({ name: 'InvalidParamError' });
+  });
+});
+
+describe('encodeOnchainCalldata', () => {
+  it('should encode a call to assertValidEpochAndSignedClaim per proof', async () => {
+    const proofs = [
+      await createSignedProof(),
+      await createSignedProof({ epoch: 2 }),
+    ];
+    const reclaimInterface = new ethers.utils.Interface(ReclaimFactory.abi);
+
+    const calldata = encodeOnchainCalldata(proofs);
+    expect(calldata).toHaveLength(2);
+    const decoded = reclaimInterface.decodeFunctionData(
+      'assertValidEpochAndSignedClaim',
+      calldata[1] as string
+    );
+    const { claimInfo, signedClaim } = transformForOnchain(proofs[1] as Proof);
+    expect(decoded.epochNum).toBe(2);
+    expect(decoded.claimInfo.parameters).toBe(claimInfo.parameters);
+    expect(decoded.claimData.owner).toBe(
+      ethers.utils.getAddress(signedClaim.claim.owner)
+    );
+    expect(decoded.signatures).toEqual(signedClaim.signatures);
+  });
+
+  it('should build the claim structs in the field order of the ABI', async () => {
+    const { claimInfo, signedClaim } = transformForOnchain(
+      await createSignedProof()
+    );
+    const { inputs } = new ethers.utils.Interface(
+      ReclaimFactory.abi
+    ).getFunction('assertValidEpochAndSignedClaim');
+    const fieldsOf = (name: string) =>
+      inputs
+        .find((input) => input.name === name)
+        ?.components.map((component) => component.name);
+
+    expect(Object.keys(claimInfo)).toEqual(fieldsOf('claimInfo'));
+    expect(Object.keys(signedClaim.claim)).toEqual(fieldsOf('claimData'));
+  });
+});
+
+describe('ReclaimProofRequest.init', () => {
+  it('should sign the request with an ethers Signer', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const transport: HttpTransport = async () => ({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        sessionId: SESSION_ID,
+        resolvedProviderVersion: '',
+      }),
+    });
+    const request = await ReclaimProofRequest.init(
+      '0x0000000000000000000000000000000000000001',
+      wallet,
+      'provider',
+      { transport }
+    );
+
+    const { signature, timeStamp } = JSON.parse(request.toJsonString());
+    const messageHash = ethers.utils.keccak256(
+      new TextEncoder().encode(
+        canonicalize({ providerId: 'provider', timestamp: timeStamp }) as string
+      )
+    );
+    expect(
+      ethers.utils.verifyMessage(ethers.utils.arrayify(messageHash), signature)
+    ).toBe(wallet.address);
+  });
+});
+
+describe('ReclaimProofRequest endpoints', () => {
+  const endpoints = {
+    backendBaseUrl: 'http://localhost:8001',
+    shareUrl: 'http://localhost:8002/verifier/?template=',
+    instantAppUrl: 'http://localhost:8002/verify/?template=',
+    appClipUrl: 'http://localhost:8002/clip?template=',
+  };
+  // Accepts session calls and turns down the shortener, so the full link is returned
+  const createLinkTransport = () => {
+    const requestedUrls: string[] = [];
+    const transport: HttpTransport = async (url) => {
+      requestedUrls.push(url);
+      const isShortener = url.endsWith('/api/sdk/shortener');
+      return {
+        ok: !isShortener,
+        status: isShortener ? 400 : 200,
+        json: async () => ({
+          sessionId: SESSION_ID,
+          resolvedProviderVersion: '',
+        }),
+      };
+    };
+    return { transport, requestedUrls };
+  };
+  const initRequest = (options: ProofRequestOptions) =>
+    ReclaimProofRequest.init(
+      witnessWallet.address,
+      WITNESS_PRIVATE_KEY,
+      'provider',
+      options
+    );
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should build the request url from the configured endpoints', async () => {
+    const { transport, requestedUrls } = createLinkTransport();
+    const request = await initRequest({ endpoints, transport });
+
+    await expect(request.getRequestUrl()).resolves.toMatch(
+      /^http:\/\/localhost:8002\/verifier\/\?template=/
+    );
+    expect(
+      requestedUrls.every((url) => url.startsWith('http://localhost:8001/'))
+    ).toBe(true);
+  });
+
+  it('should build the instant app and App Clip urls from the configured endpoints', async () => {
+    const { transport } = createLinkTransport();
+    const request = await initRequest({
+      endpoints,
+      transport,
+      useAppClip: true,
+    });
+
+    jest.replaceProperty(Platform, 'OS', 'android');
+    await expect(request.getRequestUrl()).resolves.toMatch(
+      /^http:\/\/localhost:8002\/verify\/\?template=/
+    );
+    jest.replaceProperty(Platform, 'OS', 'ios');
+    await expect(request.getRequestUrl()).resolves.toMatch(
+      /^http:\/\/localhost:8002\/clip\?template=/
+    );
+  });
+
+  it('should keep the endpoints through a JSON round trip', async () => {
+    const { transport, requestedUrls } = createLinkTransport();
+    const request = await initRequest({ endpoints, transport });
+    requestedUrls.length = 0;
+
+    const restored = await ReclaimProofRequest.fromJsonString(
+      request.toJsonString(),
+      { transport }
+    );
+    expect(JSON.parse(restored.toJsonString()).options.endpoints).toEqual(
+      endpoints
+    );
+    await expect(restored.getRequestUrl()).resolves.toMatch(
+      /^http:\/\/localhost:8002\/verifier\/\?template=/
+    );
+    expect(requestedUrls).toEqual([
+      'http://localhost:8001/api/sdk/update/session/',
+      'http://localhost:8001/api/sdk/shortener',
+    ]);
+  });
+});
+
+describe('ReclaimProofRequest.startSession', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should poll the status url of the configured backend', async () => {
+    const { transport, requestedUrls } = createTransport([
+      SessionStatus.SESSION_STARTED,
+    ]);
+    const request = await createRequest(transport);
+    const session = await request.startSession({
+      onSuccess: jest.fn(),
+      onError: jest.fn(),
+    });
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(requestedUrls).toEqual([
+      `http://localhost:8001/api/sdk/session/${SESSION_ID}`,
+    ]);
+    session.cancel();
+  });
+
+  it('should stop polling and report a SessionCancelledError on cancel', async () => {
+    const { transport, requestedUrls } = createTransport([
+      SessionStatus.SESSION_STARTED,
+    ]);
+    const request = await createRequest(transport);
+    const onError = jest.fn();
+    const session = await request.startSession({
+      onSuccess: jest.fn(),
+      onError,
+    });
+
+    await jest.advanceTimersByTimeAsync(3000);
+    session.cancel();
+    await expect(session.done).rejects.toMatchObject({
+      name: 'SessionCancelledError',
+    });
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    // Neither the interval nor the session timeout fire after cancelling
+    await jest.advanceTimersByTimeAsync(1000 * 60 * 10);
+    expect(requestedUrls).toHaveLength(1);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cancel the session when the abort signal fires', async () => {
+    const { transport } = createTransport([SessionStatus.SESSION_STARTED]);
+    const request = await createRequest(transport);
+    const controller = new AbortController();
+    const session = await request.startSession({
+      onSuccess: jest.fn(),
+      onError: jest.fn(),
+      signal: controller.signal,
+    });
+
+    controller.abort();
+    await expect(session.done).rejects.toMatchObject({
+      name: 'SessionCancelledError',
+    });
+  });
+
+  it('should report a TimeoutError when no proofs arrive in time', async () => {
+    const { transport } = createTransport([SessionStatus.SESSION_STARTED]);
+    const request = await createRequest(transport);
+    const onError = jest.fn();
+    const session = await request.startSession({
+      onSuccess: jest.fn(),
+      onError,
+    });
+
+    await jest.advanceTimersByTimeAsync(1000 * 60 * 10);
+    await expect(session.done).rejects.toMatchObject({ name: 'TimeoutError' });
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report each status transition once', async () => {
+    const { transport } = createTransport([
+      SessionStatus.SESSION_STARTED,
+      SessionStatus.SESSION_STARTED,
+      SessionStatus.USER_STARTED_VERIFICATION,
+      SessionStatus.PROOF_GENERATION_STARTED,
+      SessionStatus.PROOF_GENERATION_STARTED,
+    ]);
+    const request = await createRequest(transport);
+    const onStatusChange = jest.fn();
+    const session = await request.startSession({
+      onSuccess: jest.fn(),
+      onError: jest.fn(),
+      onStatusChange,
+    });
+
+    await jest.advanceTimersByTimeAsync(3000 * 5);
+    expect(onStatusChange.mock.calls).toEqual([
+      [SessionStatus.SESSION_STARTED, undefined],
+      [SessionStatus.USER_STARTED_VERIFICATION, SessionStatus.SESSION_STARTED],
+      [
+        SessionStatus.PROOF_GENERATION_STARTED,
+        SessionStatus.USER_STARTED_VERIFICATION,
+      ],
+    ]);
+    session.cancel();
+  });
+});
+
+describe('ReclaimProofRequest polling options', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should back off between polls up to the maximum interval', async () => {
+    const { transport, requestedUrls } = createTransport([
+      SessionStatus.SESSION_STARTED,
+    ]);
+    const request = await createRequest(transport, {
+      polling: {
+        initialIntervalMs: 1000,
+        backoffFactor: 2,
+        maxIntervalMs: 4000,
+      },
+    });
+    const session = await request.startSession({
+      onSuccess: jest.fn(),
+      onError: jest.fn(),
+    });
+
+    // Polls at 1s, 3s, 7s and 11s
+    await jest.advanceTimersByTimeAsync(11000);
+    expect(requestedUrls).toHaveLength(4);
+    session.cancel();
+  });
+
+  it('should fail once proof generation keeps failing past the grace period', async () => {
+    const { transport } = createTransport([
+      SessionStatus.PROOF_GENERATION_FAILED,
+    ]);
+    const request = await createRequest(transport, {
+      polling: { initialIntervalMs: 1000, failureGracePeriodMs: 2000 },
+    });
+    const onError = jest.fn();
+    await request.startSession({ onSuccess: jest.fn(), onError });
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'ProviderFailedError' })
+    );
+  });
+
+  it('should keep polling through transient status fetch failures', async () => {
+    const { transport: statusTransport } = createTransport([
+      SessionStatus.PROOF_SUBMITTED,
+    ]);
+    // Offline for the first polls, then a gateway error, then back online
+    const failures: (Error | number)[] = [
+      new Error('offline'),
+      new Error('offline'),
+      502,
+    ];
+    const transport: HttpTransport = async (url, init) => {
+      const failure = failures.shift();
+      if (failure instanceof Error) {
+        throw failure;
+      }
+      if (failure) {
+        return { ok: false, status: failure, json: async () => ({}) };
+      }
+      return statusTransport(url, init);
+    };
+    const request = await createRequest(transport, {
+      polling: { initialIntervalMs: 1000, backoffFactor: 1 },
+      retry: { maxAttempts: 1 },
+    });
+    request.setAppCallbackUrl('https://example.com/callback');
+    const onSuccess = jest.fn();
+    const onError = jest.fn();
+    await request.startSession({ onSuccess, onError });
+
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(onError).not.toHaveBeenCalled();
+    expect(onSuccess).toHaveBeenCalled();
+  });
+
+  it('should end the session when the status fetch is rejected', async () => {
+    const transport: HttpTransport = async () => ({
+      ok: false,
+      status: 404,
+      json: async () => ({ message: 'Session not found' }),
+    });
+    const request = await createRequest(transport, {
+      polling: { initialIntervalMs: 1000 },
+    });
+    const onError = jest.fn();
+    await request.startSession({ onSuccess: jest.fn(), onError });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'StatusUrlError' })
+    );
+  });
+
+  it('should persist the polling options in toJsonString', async () => {
+    const { transport } = createTransport([SessionStatus.SESSION_STARTED]);
+    const polling = { initialIntervalMs: 1000, sessionTimeoutMs: 60000 };
+    const request = await createRequest(transport, { polling });
+
+    const restored = JSON.parse(request.toJsonString());
+    expect(restored.options.polling).toEqual(polling);
+  });
+
+  it('should reject invalid polling options', async () => {
+    const { transport } = createTransport([SessionStatus.SESSION_STARTED]);
+    await expect(
+      createRequest(transport, { polling: { backoffFactor: 0.5 } })
+    ).rejects.toMatchObject({ name: 'InvalidParamError' });
+    // Below the default initialIntervalMs of 3000
+    await expect(
+      createRequest(transport, { polling: { maxIntervalMs: 1000 } })
+    ).rejects.toMatchObject({ name: 'InvalidParamError' });
+    await expect(
+      createRequest(transport, { polling: { initialIntervalMs: 60000 } })
+    ).rejects.toMatchObject({ name: 'InvalidParamError' });
+  });
+});
+
+describe('ReclaimProofRequest.waitForProofs', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should resolve with the verified proofs', async () => {
+    const proof = await createSignedProof();
+    const { transport } = createTransport([
+      SessionStatus.PROOF_GENERATION_STARTED,
+      { statusV2: SessionStatus.PROOF_GENERATION_SUCCESS, proofs: [proof] },
+    ]);
+    const request = await createRequest(transport);
+
+    const result = request.waitForProofs({
+      verification: { witnessPolicy: manualVerifyPolicy },
+    });
+    await jest.advanceTimersByTimeAsync(3000 * 2);
+    await expect(result).resolves.toEqual([proof]);
+  });
+
+  it('should reject proofs created before the request', async () => {
+    const proof = await createSignedProof({
+      timestampS: Math.floor(Date.now() / 1000) - 3600,
+    });
+    const { transport } = createTransport([
+      { statusV2: SessionStatus.PROOF_GENERATION_SUCCESS, proofs: [proof] },
+    ]);
+    const request = await createRequest(transport);
+
+    const result = request
+      .waitForProofs({
+        verification: {
+          notBeforeRequestCreation: true,
+          witnessPolicy: manualVerifyPolicy,
+        },
+      })
+      .catch((error: Error) => error);
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(await result).toMatchObject({ name: 'StaleProofError' });
+  });
+
+  it('should reject proofs for other parameters or context', async () => {
+    const proof = await createSignedProof();
+    const { transport } = createTransport([
+      { statusV2: SessionStatus.PROOF_GENERATION_SUCCESS, proofs: [proof] },
+    ]);
+    const otherParams = await createRequest(transport);
+    otherParams.setParams({ username: 'bob' });
+    const otherContext = await createRequest(transport);
+    otherContext.addContext('0x0', 'another message');
+
+    const results = [otherParams, otherContext].map((request) =>
+      request
+        .waitForProofs({ verification: { witnessPolicy: manualVerifyPolicy } })
+        .catch((error: Error) => error)
+    );
+    await jest.advanceTimersByTimeAsync(3000);
+    for (const result of results) {
+      expect(await result).toMatchObject({ name: 'ProofMismatchError' });
+    }
+  });
+
+  it('should reject with a TimeoutError after timeoutMs', async () => {
+    const { transport } = createTransport([SessionStatus.SESSION_STARTED]);
+    const request = await createRequest(transport);
+
+    const result = request
+      .waitForProofs({ timeoutMs: 5000 })
+      .catch((error: Error) => error);
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(await result).toMatchObject({ name: 'TimeoutError' });
+  });
+});
+
+describe('ReclaimProofRequest.statusUpdates', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should yield each status until the session succeeds', async () => {
+    const proof = await createSignedProof();
+    const { transport } = createTransport([
+      SessionStatus.SESSION_STARTED,
+      SessionStatus.USER_STARTED_VERIFICATION,
+      { statusV2: SessionStatus.PROOF_GENERATION_SUCCESS, proofs: [proof] },
+    ]);
+    const request = await createRequest(transport);
+
+    const statuses: SessionStatus[] = [];
+    const collecting = (async () => {
+      for await (const status of request.statusUpdates({
+        verification: { witnessPolicy: manualVerifyPolicy },
+      })) {
+        statuses.push(status);
+      }
+    })();
+    await jest.advanceTimersByTimeAsync(3000 * 3);
+    await collecting;
+
+    expect(statuses).toEqual([
+      SessionStatus.SESSION_STARTED,
+      SessionStatus.USER_STARTED_VERIFICATION,
+      SessionStatus.PROOF_GENERATION_SUCCESS,
+    ]);
+  });
+
+  it('should stop polling when the consumer stops iterating', async () => {
+    const { transport, requestedUrls } = createTransport([
+      SessionStatus.SESSION_STARTED,
+      SessionStatus.USER_STARTED_VERIFICATION,
+    ]);
+    const request = await createRequest(transport);
+
+    const collecting = (async () => {
+      for await (const status of request.statusUpdates()) {
+        if (status === SessionStatus.SESSION_STARTED) break;
+      }
+    })();
+    await jest.advanceTimersByTimeAsync(3000);
+    await collecting;
+
+    await jest.advanceTimersByTimeAsync(3000 * 5);
+    expect(requestedUrls).toHaveLength(1);
+  });
+});
+
+describe('ReclaimProofRequest.resumePending', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should save a running session and remove it once finished', async () => {
+    const proof = await createSignedProof();
+    const { transport } = createTransport([
+      SessionStatus.SESSION_STARTED,
+      { statusV2: SessionStatus.PROOF_GENERATION_SUCCESS, proofs: [proof] },
+    ]);
+    const store = makeInMemorySessionStore();
+    const request = await createRequest(transport);
+
+    const session = await request.startSession({
+      onSuccess: jest.fn(),
+      onError: jest.fn(),
+      store,
+      verification: { witnessPolicy: manualVerifyPolicy },
+    });
+    const [stored] = await loadSessions(store);
+    expect(stored?.sessionId).toBe(SESSION_ID);
+    expect(stored?.session?.request).toBe(request.toJsonString());
+
+    await jest.advanceTimersByTimeAsync(3000 * 2);
+    await session.done;
+    expect(await loadSessions(store)).toEqual([]);
+  });
+
+  it('should resume unfinished sessions and drop expired ones', async () => {
+    const proof = await createSignedProof();
+    const { transport } = createTransport([
+      { statusV2: SessionStatus.PROOF_GENERATION_SUCCESS, proofs: [proof] },
+    ]);
+    const store = makeInMemorySessionStore();
+    const request = await createRequest(transport);
+    await saveSession(store, SESSION_ID, {
+      request: request.toJsonString(),
+      expiresAt: Date.now() + 60000,
+    });
+    await saveSession(store, 'expired-session', {
+      request: request.toJsonString(),
+      expiresAt: Date.now() - 1,
+    });
+
+    const onSuccess = jest.fn();
+    const resumed = await ReclaimProofRequest.resumePending(
+      store,
+      {
+        onSuccess,
+        onError: jest.fn(),
+        verification: { witnessPolicy: manualVerifyPolicy },
+      },
+      { transport }
+    );
+    expect(resumed).toHaveLength(1);
+    expect((await loadSessions(store)).map((s) => s.sessionId)).toEqual([
+      SESSION_ID,
+    ]);
+
+    await jest.advanceTimersByTimeAsync(3000);
+    await resumed[0]?.session.done;
+    expect(onSuccess).toHaveBeenCalledWith(proof);
+    expect(await loadSessions(store)).toEqual([]);
+  });
+});
+
+describe('ReclaimProofRequest status streaming', () => {
+  // Stands in for the server end of every socket the session opens
+  const sockets: FakeSocket[] = [];
+  class FakeSocket implements WebSocketLike {
+    onmessage: WebSocketLike['onmessage'] = null;
+    onerror: WebSocketLike['onerror'] = null;
+    onclose: WebSocketLike['onclose'] = null;
+    isClosed = false;
+    constructor(public url: string) {
+      sockets.push(this);
+    }
+    send(statusV2: SessionStatus, proofs: Proof[] = []) {
+      this.onmessage?.({
+        data: JSON.stringify({
+          message: 'ok',
+          session: { sessionId: SESSION_ID, statusV2, proofs },
+        }),
+      });
+    }
+    close() {
+      this.isClosed = true;
+    }
+  }
+
+  beforeEach(() => {
+    sockets.length = 0;
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should complete from pushed status updates without polling', async () => {
+    const proof = await createSignedProof();
+    const { transport, requestedUrls } = createTransport([
+      SessionStatus.SESSION_STARTED,
+    ]);
+    const request = await createRequest(
+      transport,
+      {},
+      { webSocket: FakeSocket }
+    );
+    const onSuccess = jest.fn();
+    const onStatusChange = jest.fn();
+
+    const session = await request.startSession({
+      onSuccess,
+      onError: jest.fn(),
+      onStatusChange,
+      transport: 'websocket',
+      verification: { witnessPolicy: manualVerifyPolicy },
+    });
+    expect(sockets.map((socket) => socket.url)).toEqual([
+      `ws://localhost:8001/api/sdk/session/ws/${SESSION_ID}`,
+    ]);
+
+    sockets[0]?.send(SessionStatus.PROOF_GENERATION_STARTED);
+    sockets[0]?.send(SessionStatus.PROOF_GENERATION_SUCCESS, [proof]);
+    await session.done;
+    expect(onStatusChange).toHaveBeenCalledTimes(2);
+    expect(onSuccess).toHaveBeenCalledWith(proof);
+    expect(sockets[0]?.isClosed).toBe(true);
+    expect(requestedUrls).toEqual([]);
+  });
+
+  it('should fall back to polling when the stream disconnects', async () => {
+    const { transport, requestedUrls } = createTransport([
+      SessionStatus.SESSION_STARTED,
+    ]);
+    const request = await createRequest(
+      transport,
+      {},
+      { webSocket: FakeSocket }
+    );
+    const session = await request.startSession({
+      onSuccess: jest.fn(),
+      onError: jest.fn(),
+      transport: 'websocket',
+    });
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(requestedUrls).toEqual([]);
+
+    sockets[0]?.onclose?.({});
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(requestedUrls).toEqual([
+      `http://localhost:8001/api/sdk/session/${SESSION_ID}`,
+    ]);
+    session.cancel();
+  });
+
+  it('should keep polling after the SSE stream fails', async () => {
+    const proof = await createSignedProof();
+    const { transport, requestedUrls } = createTransport([
+      SessionStatus.SESSION_STARTED,
+      { statusV2: SessionStatus.PROOF_GENERATION_SUCCESS, proofs: [proof] },
+    ]);
+    const request = await createRequest(
+      transport,
+      {},
+      { eventSource: FakeSocket }
+    );
+    const onSuccess = jest.fn();
+    const session = await request.startSession({
+      onSuccess,
+      onError: jest.fn(),
+      transport: 'sse',
+      verification: { witnessPolicy: manualVerifyPolicy },
+    });
+    expect(sockets.map((socket) => socket.url)).toEqual([
+      `http://localhost:8001/api/sdk/session/stream/${SESSION_ID}`,
+    ]);
+
+    sockets[0]?.onerror?.({});
+    expect(sockets[0]?.isClosed).toBe(true);
+    await jest.advanceTimersByTimeAsync(3000);
+    // Updates of the closed stream are ignored
+    sockets[0]?.send(SessionStatus.PROOF_GENERATION_SUCCESS, [proof]);
+    expect(onSuccess).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(3000);
+    await session.done;
+    expect(onSuccess).toHaveBeenCalledWith(proof);
+    expect(requestedUrls).toHaveLength(2);
+    expect(sockets).toHaveLength(1);
+  });
+
+  it('should poll when no stream implementation is available', async () => {
+    const { transport, requestedUrls } = createTransport([
+      SessionStatus.SESSION_STARTED,
+    ]);
+    const request = await createRequest(transport);
+    const session = await request.startSession({
+      onSuccess: jest.fn(),
+      onError: jest.fn(),
+      transport: 'sse',
+    });
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(requestedUrls).toEqual([
+      `http://localhost:8001/api/sdk/session/${SESSION_ID}`,
+    ]);
+    session.cancel();
+  });
+
+  it('should fail after the grace period when a failure is pushed once', async () => {
+    const { transport } = createTransport([SessionStatus.SESSION_STARTED]);
+    const request = await createRequest(
+      transport,
+      { polling: { failureGracePeriodMs: 2000 } },
+      { webSocket: FakeSocket }
+    );
+    const onError = jest.fn();
+    await request.startSession({
+      onSuccess: jest.fn(),
+      onError,
+      transport: 'websocket',
+    });
+
+    sockets[0]?.send(SessionStatus.PROOF_GENERATION_FAILED);
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(onError).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'ProviderFailedError' })
+    );
+    expect(sockets[0]?.isClosed).toBe(true);
+  });
+
+  it('should keep the session when a pushed failure recovers', async () => {
+    const { transport } = createTransport([SessionStatus.SESSION_STARTED]);
+    const request = await createRequest(
+      transport,
+      { polling: { failureGracePeriodMs: 2000 } },
+      { webSocket: FakeSocket }
+    );
+    const onError = jest.fn();
+    const session = await request.startSession({
+      onSuccess: jest.fn(),
+      onError,
+      transport: 'websocket',
+    });
+
+    sockets[0]?.send(SessionStatus.PROOF_GENERATION_FAILED);
+    await jest.advanceTimersByTimeAsync(1000);
+    sockets[0]?.send(SessionStatus.PROOF_GENERATION_STARTED);
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(onError).not.toHaveBeenCalled();
+    session.cancel();
+  });
+});
@@ -0,0 +1,133 @@
+import { jest } from '@jest/globals';
+import { ReclaimMultiProofRequest } from '../ReclaimMultiProofRequest';
+import { SessionStatus } from '../utils/types';
+import type { HttpTransport, ProofsByProvider } from '../utils/types';
+import type { Proof } from '../utils/interfaces';
+import { createSignedProof, manualVerifyPolicy } from '../__fixtures__/proofs';
+
+const PROVIDERS = ['employer', 'bank'];
+
+// Serves proofs for a session once it has been polled `readyAfter` times
+function createTransport(sessions: {
+  [sessionId: string]: { proofs: Proof[]; readyAfter: number };
+}) {
+  const polls: { [sessionId: string]: number } = {};
+  const transport: HttpTransport = async (url) => {
+    const sessionId = url.split('/').pop() as string;
+    const session = sessions[sessionId] as {
+      proofs: Proof[];
+      readyAfter: number;
+    };
+    polls[sessionId] = (polls[sessionId] ?? 0) + 1;
+    const isReady = (polls[sessionId] as number) >= session.readyAfter;
+    return {
+      ok: true,
+      status: 200,
+      json: async () => ({
+        message: 'ok',
+        session: {
+          id: sessionId,
+          appId: 'app',
+          httpProviderId: [],
+          sessionId,
+          statusV2: isReady
+            ? SessionStatus.PROOF_GENERATION_SUCCESS
+            : SessionStatus.USER_STARTED_VERIFICATION,
+          proofs: isReady ? session.proofs : [],
+        },
+      }),
+    };
+  };
+  return transport;
+}
+
+function createRequest(transport: HttpTransport, providerIds = PROVIDERS) {
+  const json = JSON.stringify({
+    requests: providerIds.map((providerId) => ({
+      applicationId: '0x0000000000000000000000000000000000000001',
+      providerId,
+      sessionId: `session-${providerId}`,
+      context: { contextAddress: '0x0', contextMessage: 'sample message' },
+      parameters: {},
+      signature: '0xsignature',
+      timeStamp: Date.now().toString(),
+      sdkVersion: 'rn-test',
+    })),
+  });
+  return ReclaimMultiProofRequest.fromJsonString(json, { transport });
+}
+
+describe('ReclaimMultiProofRequest.fromJsonString', () => {
+  it('should reject requests that share a providerId', async () => {
+    await expect(
+      createRequest(createTransport({}), ['bank', 'employer', 'bank'])
+    ).rejects.toMatchObject({
+      name: 'InvalidParamError',
+      message: 'requests passed to fromJsonString must not share a providerId.',
+    });
+  });
+});
+
+describe('ReclaimMultiProofRequest.startSession', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should report partial completion and group proofs by provider', async () => {
+    const employerProof = await createSignedProof({ provider: 'employer' });
+    const bankProof = await createSignedProof({ provider: 'bank' });
+    const request = await createRequest(
+      createTransport({
+        'session-employer': { proofs: [employerProof], readyAfter: 1 },
+        'session-bank': { proofs: [bankProof], readyAfter: 3 },
+      })
+    );
+    const onSuccess = jest.fn<(proofs: ProofsByProvider) => void>();
+    const onProviderComplete = jest.fn();
+
+    const session = await request.startSession({
+      onSuccess,
+      onError: jest.fn(),
+      onProviderComplete,
+      verification: { witnessPolicy: manualVerifyPolicy },
+    });
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(onProviderComplete).toHaveBeenCalledWith('employer', {
+      completed: ['employer'],
+      pending: ['bank'],
+      proofs: { employer: [employerProof] },
+    });
+    expect(onSuccess).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(3000 * 2);
+    await session.done;
+    expect(onSuccess).toHaveBeenCalledWith({
+      employer: [employerProof],
+      bank: [bankProof],
+    });
+  });
+
+  it('should cancel every provider session', async () => {
+    const request = await createRequest(
+      createTransport({
+        'session-employer': { proofs: [], readyAfter: Infinity },
+        'session-bank': { proofs: [], readyAfter: Infinity },
+      })
+    );
+    const onError = jest.fn();
+    const session = await request.startSession({
+      onSuccess: jest.fn(),
+      onError,
+    });
+
+    session.cancel();
+    await expect(session.done).rejects.toMatchObject({
+      name: 'SessionCancelledError',
+    });
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+});
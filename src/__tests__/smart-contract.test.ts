@@ -0,0 +1,365 @@
+import { jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import {
+  makeBeacon,
+  makeBeaconCacheable,
+  makeReclaimContract,
+  verifyClaimOnchain,
+} from '../smart-contract';
+import { transformForOnchain } from '../Reclaim';
+import { createSignedProof } from '../__fixtures__/proofs';
+import { Reclaim__factory as ReclaimFactory } from '../contract-types';
+import { makeInMemorySessionStore } from '../utils/sessionStore';
+import type { Beacon, BeaconState } from '../utils/interfaces';
+
+const NOW_S = 1_700_000_000;
+
+function createState(epoch: number, nextEpochTimestampS: number): BeaconState {
+  return {
+    epoch,
+    witnesses: [{ id: '0x1', url: 'https://witness.example.com' }],
+    witnessesRequiredForClaim: 1,
+    nextEpochTimestampS,
+  };
+}
+
+const reclaimInterface = new ethers.utils.Interface(ReclaimFactory.abi);
+
+const witness = {
+  addr: '0x244897572368Eadf65bfBc5aec98D8e5443a9072',
+  host: 'wss://witness.reclaimprotocol.org/ws',
+};
+
+// Answers eth_call with the given return values of each contract function,
+// or fails it with the given error
+type RpcResults = { [fn: string]: unknown[] | Error };
+
+// Answers eth_calls with the results of each function, or of each RPC URL
+function stubRpc(results: RpcResults | ((url: string) => RpcResults)) {
+  return jest
+    .spyOn(ethers.providers.JsonRpcProvider.prototype, 'send')
+    .mockImplementation(async function (
+      this: ethers.providers.JsonRpcProvider,
+      method: string,
+      params: any[]
+    ) {
+      if (method === 'eth_chainId') {
+        return '0xaa37dc';
+      }
+      if (method === 'eth_blockNumber') {
+        return '0x1';
+      }
+      const fn = reclaimInterface.getFunction(params[0].data.slice(0, 10));
+      const result = (
+        typeof results === 'function' ? results(this.connection.url) : results
+      )[fn.name];
+      if (result instanceof Error) {
+        throw result;
+      }
+      return reclaimInterface.encodeFunctionResult(fn, result as unknown[]);
+    });
+}
+
+// The error a node returns for a call that reverted with a reason
+function createRevertError(reason: string) {
+  return Object.assign(new Error(`execution reverted: ${reason}`), {
+    code: 3,
+    data: new ethers.utils.Interface([
+      'function Error(string)',
+    ]).encodeFunctionData('Error', [reason]),
+  });
+}
+
+// Epoch 1 has ended, epoch 2 is current and ends in an hour
+function createBeacon() {
+  const getState = jest.fn(async (epoch?: number) =>
+    epoch === 1 ? createState(1, NOW_S) : createState(2, NOW_S + 3600)
+  );
+  const beacon: Beacon = { getState };
+  return { beacon, getState };
+}
+
+describe('makeBeaconCacheable', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW_S * 1000 + 1 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should cache the current epoch until the next epoch starts', async () => {
+    const { beacon, getState } = createBeacon();
+    const cached = makeBeaconCacheable(beacon);
+
+    await cached.getState();
+    await cached.getState();
+    expect(getState).toHaveBeenCalledTimes(1);
+
+    jest.setSystemTime((NOW_S + 3600) * 1000);
+    await cached.getState();
+    expect(getState).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry lookups that failed', async () => {
+    const { beacon, getState } = createBeacon();
+    getState.mockRejectedValueOnce(new Error('rate limited'));
+    getState.mockRejectedValueOnce(new Error('rate limited'));
+    const cached = makeBeaconCacheable(beacon);
+
+    await expect(cached.getState()).rejects.toThrow('rate limited');
+    await expect(cached.getState(1)).rejects.toThrow('rate limited');
+    await expect(cached.getState()).resolves.toMatchObject({ epoch: 2 });
+    await expect(cached.getState(1)).resolves.toMatchObject({ epoch: 1 });
+  });
+
+  it('should persist past epochs across instances', async () => {
+    const store = makeInMemorySessionStore();
+    const { beacon, getState } = createBeacon();
+
+    await makeBeaconCacheable(beacon, { store }).getState(1);
+    await makeBeaconCacheable(beacon, { store }).getState(2);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(getState).toHaveBeenCalledTimes(2);
+
+    const restored = makeBeaconCacheable(beacon, { store });
+    await expect(restored.getState(1)).resolves.toEqual(createState(1, NOW_S));
+    // The current epoch isn't persisted
+    await restored.getState(2);
+    expect(getState).toHaveBeenCalledTimes(3);
+  });
+
+  it('should switch to announced epochs and notify about them', async () => {
+    const { beacon, getState } = createBeacon();
+    let announce: (state: BeaconState) => void = () => {};
+    const unsubscribe = jest.fn();
+    const onEpochChange = jest.fn();
+    const cached = makeBeaconCacheable(beacon, {
+      subscribe: (onEpoch) => {
+        announce = onEpoch;
+        return unsubscribe;
+      },
+      onEpochChange,
+    });
+
+    await expect(cached.getState()).resolves.toMatchObject({ epoch: 2 });
+    expect(onEpochChange).not.toHaveBeenCalled();
+
+    const next = createState(3, NOW_S + 7200);
+    announce(next);
+    announce(createState(2, NOW_S + 3600));
+    await expect(cached.getState()).resolves.toEqual(next);
+    expect(getState).toHaveBeenCalledTimes(1);
+    expect(onEpochChange).toHaveBeenCalledTimes(1);
+    expect(onEpochChange).toHaveBeenCalledWith(next);
+
+    await cached.close?.();
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+
+  it('should notify about announced epochs before the current one is read', async () => {
+    const { beacon } = createBeacon();
+    let announce: (state: BeaconState) => void = () => {};
+    const onEpochChange = jest.fn();
+    const cached = makeBeaconCacheable(beacon, {
+      subscribe: (onEpoch) => {
+        announce = onEpoch;
+        return () => {};
+      },
+      onEpochChange,
+    });
+
+    // verifyProof only reads the epoch of the proof
+    await cached.getState(1);
+    const next = createState(3, NOW_S + 7200);
+    announce(next);
+    expect(onEpochChange).toHaveBeenCalledWith(next);
+  });
+});
+
+describe('makeBeacon', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW_S * 1000 + 1 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should not share beacons that notify about epochs', () => {
+    stubRpc({});
+    const onEpochChange = jest.fn();
+    const options = { rpcUrls: ['https://rpc-share.example.com'] };
+
+    const shared = makeBeacon(11155420, options);
+    expect(makeBeacon(11155420, options)).toBe(shared);
+    const notifying = makeBeacon(11155420, { ...options, onEpochChange });
+    expect(notifying).not.toBe(shared);
+    expect(makeBeacon(11155420, { ...options, onEpochChange })).not.toBe(
+      notifying
+    );
+    expect(makeBeacon(11155420, options)).toBe(shared);
+  });
+
+  it('should follow the EpochAdded events of the contract', async () => {
+    const send = stubRpc({ fetchEpoch: [[2, 100, NOW_S, [witness], 1]] });
+    // The listeners are captured instead of polling the RPC for logs
+    const on = jest.spyOn(ethers.Contract.prototype, 'on').mockReturnThis();
+    const off = jest.spyOn(ethers.Contract.prototype, 'off').mockReturnThis();
+    const onEpochChange = jest.fn();
+    const beacon = makeBeacon(11155420, {
+      rpcUrls: ['https://rpc-watch.example.com'],
+      watchEpochs: true,
+      onEpochChange,
+    }) as Beacon;
+
+    expect(on).toHaveBeenCalledWith('EpochAdded', expect.any(Function));
+    const [, handler] = on.mock.calls[0] as [string, (epoch: unknown) => void];
+    handler({
+      id: 3,
+      timestampStart: NOW_S,
+      timestampEnd: NOW_S + 3600,
+      witnesses: [witness],
+      minimumWitnessesForClaimCreation: 1,
+    });
+    const next = {
+      epoch: 3,
+      witnesses: [{ id: witness.addr.toLowerCase(), url: witness.host }],
+      witnessesRequiredForClaim: 1,
+      nextEpochTimestampS: NOW_S + 3600,
+    };
+    expect(onEpochChange).toHaveBeenCalledWith(next);
+    await expect(beacon.getState()).resolves.toEqual(next);
+    expect(send).not.toHaveBeenCalledWith('eth_call', expect.anything());
+
+    await beacon.close?.();
+    expect(off).toHaveBeenCalledWith('EpochAdded', handler);
+  });
+});
+
+describe('makeReclaimContract', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should fail over to the next rpcUrl', async () => {
+    stubRpc((url) =>
+      url === 'https://rpc-down.example.com'
+        ? { currentEpoch: new Error('connection refused') }
+        : { currentEpoch: [3] }
+    );
+    const contract = makeReclaimContract(11155420, {
+      rpcUrls: ['https://rpc-down.example.com', 'https://rpc-up.example.com'],
+    });
+
+    await expect(contract.currentEpoch()).resolves.toBe(3);
+  });
+
+  it('should reject results that rpcUrls in a quorum disagree on', async () => {
+    stubRpc((url) => ({
+      currentEpoch: [url === 'https://rpc-forked.example.com' ? 4 : 3],
+    }));
+    const contract = makeReclaimContract(11155420, {
+      rpcUrls: ['https://rpc-forked.example.com', 'https://rpc-a.example.com'],
+      rpcQuorum: 2,
+    });
+    const agreeing = makeReclaimContract(11155420, {
+      rpcUrls: ['https://rpc-a.example.com', 'https://rpc-b.example.com'],
+      rpcQuorum: 2,
+    });
+
+    await expect(contract.currentEpoch()).rejects.toThrow(
+      'failed to meet quorum'
+    );
+    await expect(agreeing.currentEpoch()).resolves.toBe(3);
+  });
+
+  it('should decode the epochs and witnesses of the contract', async () => {
+    const send = stubRpc({
+      fetchEpoch: [[3, 100, 200, [witness], 1]],
+      fetchWitnessesForClaim: [[witness]],
+      currentEpoch: [3],
+      epochDurationS: [86400],
+    });
+    const contract = makeReclaimContract(11155420, {
+      rpcUrls: ['https://rpc.example.com'],
+    });
+    const expectedWitness = {
+      id: witness.addr.toLowerCase(),
+      url: witness.host,
+    };
+
+    await expect(contract.fetchEpoch()).resolves.toEqual({
+      id: 3,
+      timestampStart: 100,
+      timestampEnd: 200,
+      witnesses: [expectedWitness],
+      minimumWitnessesForClaimCreation: 1,
+    });
+    await expect(
+      contract.fetchWitnessesForClaim(3, ethers.constants.HashZero, 150)
+    ).resolves.toEqual([expectedWitness]);
+    await expect(contract.currentEpoch()).resolves.toBe(3);
+    await expect(contract.epochDurationS()).resolves.toBe(86400);
+    const [, [{ data }]] = send.mock.calls.find(
+      ([method]) => method === 'eth_call'
+    ) as [string, any[]];
+    expect(reclaimInterface.decodeFunctionData('fetchEpoch', data).epoch).toBe(
+      0
+    );
+  });
+});
+
+describe('verifyClaimOnchain', () => {
+  const options = { rpcUrls: ['https://rpc-verify.example.com'] };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should accept proofs the contract call returns for', async () => {
+    stubRpc({ assertValidEpochAndSignedClaim: [] });
+    const proof = transformForOnchain(await createSignedProof());
+
+    await expect(verifyClaimOnchain(proof, 11155420, options)).resolves.toEqual(
+      { isVerified: true }
+    );
+  });
+
+  it('should report contract reverts with their reason', async () => {
+    stubRpc({
+      assertValidEpochAndSignedClaim: createRevertError('Invalid signature'),
+    });
+    const proof = transformForOnchain(await createSignedProof());
+
+    await expect(verifyClaimOnchain(proof, 11155420, options)).resolves.toEqual(
+      { isVerified: false, revertReason: 'Invalid signature' }
+    );
+  });
+
+  it('should throw RPC failures', async () => {
+    stubRpc({
+      assertValidEpochAndSignedClaim: new Error('connection refused'),
+    });
+    const proof = transformForOnchain(await createSignedProof());
+
+    await expect(verifyClaimOnchain(proof, 11155420, options)).rejects.toThrow(
+      'connection refused'
+    );
+  });
+
+  it('should report reverts without a reason', async () => {
+    stubRpc({
+      assertValidEpochAndSignedClaim: Object.assign(
+        new Error('execution reverted'),
+        { code: 3 }
+      ),
+    });
+    const proof = transformForOnchain(await createSignedProof());
+
+    await expect(
+      verifyClaimOnchain(proof, 11155420, options)
+    ).resolves.toMatchObject({ isVerified: false });
+  });
+});
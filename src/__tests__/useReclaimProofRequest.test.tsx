@@ -0,0 +1,169 @@
+import React from 'react';
+import { jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import { act, create } from 'react-test-renderer';
+import type { ReactTestRenderer } from 'react-test-renderer';
+import { ReclaimProofRequest } from '../Reclaim';
+import { useReclaimProofRequest } from '../useReclaimProofRequest';
+import type {
+  SessionHandle,
+  StartSessionParams,
+  UseReclaimProofRequestResult,
+} from '../utils/types';
+import { WITNESS_PRIVATE_KEY } from '../__fixtures__/proofs';
+import { setLogLevel } from '../utils/logger';
+
+setLogLevel('silent');
+(
+  globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }
+).IS_REACT_ACT_ENVIRONMENT = true;
+
+const APP_ID = '0x0000000000000000000000000000000000000001';
+
+type HookProps = {
+  appSecretOrSigner: string | ethers.Signer;
+  providerId: string;
+};
+
+// Stands in for an initialized request and records the sessions it starts
+function createFakeRequest(providerId: string) {
+  const sessions: { params: StartSessionParams; cancel: jest.Mock }[] = [];
+  const request = {
+    getRequestUrl: async () =>
+      `https://share.reclaimprotocol.org/${providerId}`,
+    startSession: async (
+      params: StartSessionParams
+    ): Promise<SessionHandle> => {
+      const cancel = jest.fn();
+      sessions.push({ params, cancel });
+      return { cancel, done: new Promise(() => {}) };
+    },
+  };
+  return { request: request as unknown as ReclaimProofRequest, sessions };
+}
+
+function mockInit() {
+  return jest
+    .spyOn(ReclaimProofRequest, 'init')
+    .mockImplementation(
+      async (_applicationId, _appSecretOrSigner, providerId) =>
+        createFakeRequest(providerId).request
+    );
+}
+
+async function renderHook(props: HookProps) {
+  const result: { current?: UseReclaimProofRequestResult } = {};
+  const Probe = ({ appSecretOrSigner, providerId }: HookProps) => {
+    result.current = useReclaimProofRequest(
+      APP_ID,
+      appSecretOrSigner,
+      providerId
+    );
+    return null;
+  };
+  let renderer: ReactTestRenderer | undefined;
+  await act(async () => {
+    renderer = create(<Probe {...props} />);
+  });
+  return {
+    result,
+    rerender: (next: HookProps) =>
+      act(async () => {
+        renderer?.update(<Probe {...next} />);
+      }),
+    unmount: () =>
+      act(async () => {
+        renderer?.unmount();
+      }),
+  };
+}
+
+describe('useReclaimProofRequest', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should cancel the session on unmount', async () => {
+    const { request, sessions } = createFakeRequest('provider');
+    jest.spyOn(ReclaimProofRequest, 'init').mockResolvedValue(request);
+    const { result, unmount } = await renderHook({
+      appSecretOrSigner: WITNESS_PRIVATE_KEY,
+      providerId: 'provider',
+    });
+    expect(result.current?.status).toBe('ready');
+
+    await act(async () => {
+      await result.current?.start();
+    });
+    expect(result.current?.status).toBe('in_progress');
+
+    await unmount();
+    expect(sessions[0]?.cancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('should initialize again when the providerId changes', async () => {
+    const init = mockInit();
+    const { result, rerender } = await renderHook({
+      appSecretOrSigner: WITNESS_PRIVATE_KEY,
+      providerId: 'first',
+    });
+    expect(result.current?.requestUrl).toContain('first');
+
+    await rerender({
+      appSecretOrSigner: WITNESS_PRIVATE_KEY,
+      providerId: 'second',
+    });
+    expect(init).toHaveBeenCalledTimes(2);
+    expect(init).toHaveBeenLastCalledWith(
+      APP_ID,
+      WITNESS_PRIVATE_KEY,
+      'second',
+      {}
+    );
+    expect(result.current?.status).toBe('ready');
+    expect(result.current?.requestUrl).toContain('second');
+  });
+
+  it('should drop the results of an earlier initialization', async () => {
+    let resolveFirst: (request: ReclaimProofRequest) => void = () => {};
+    const init = jest
+      .spyOn(ReclaimProofRequest, 'init')
+      .mockImplementationOnce(
+        () => new Promise((resolve) => (resolveFirst = resolve))
+      )
+      .mockImplementation(
+        async (_applicationId, _appSecretOrSigner, providerId) =>
+          createFakeRequest(providerId).request
+      );
+    const { result, rerender } = await renderHook({
+      appSecretOrSigner: WITNESS_PRIVATE_KEY,
+      providerId: 'first',
+    });
+    await rerender({
+      appSecretOrSigner: WITNESS_PRIVATE_KEY,
+      providerId: 'second',
+    });
+    expect(result.current?.requestUrl).toContain('second');
+
+    await act(async () => {
+      resolveFirst(createFakeRequest('first').request);
+    });
+    expect(init).toHaveBeenCalledTimes(2);
+    expect(result.current?.requestUrl).toContain('second');
+  });
+
+  it('should not initialize again for a new Signer with the same address', async () => {
+    const init = mockInit();
+    const { result, rerender } = await renderHook({
+      appSecretOrSigner: new ethers.Wallet(WITNESS_PRIVATE_KEY),
+      providerId: 'provider',
+    });
+    await rerender({
+      appSecretOrSigner: new ethers.Wallet(WITNESS_PRIVATE_KEY),
+      providerId: 'provider',
+    });
+
+    expect(init).toHaveBeenCalledTimes(1);
+    expect(result.current?.status).toBe('ready');
+  });
+});
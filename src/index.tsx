@@ -1,3 +1,21 @@
 import 'text-encoding-polyfill';
 export * from './Reclaim';
+export * from './ReclaimMultiProofRequest';
+export * from './useReclaimProofRequest';
 export * from './utils/interfaces';
+export * from './utils/types';
+export * from './utils/errors';
+export { makeInMemorySessionStore } from './utils/sessionStore';
+export { parseProof } from './utils/validationUtils';
+export {
+  decodeProof,
+  decodeProofFromBytes,
+  encodeProof,
+  encodeProofToBytes,
+} from './utils/proofEncoding';
+export {
+  exportBeaconSnapshot,
+  makeBeacon,
+  makeBeaconFromSnapshot,
+  makeReclaimContract,
+} from './smart-contract';
@@ -1,81 +1,491 @@
-import type { Beacon, BeaconState } from './utils/interfaces';
+import type { Beacon, BeaconState, WitnessData } from './utils/interfaces';
+import type {
+  BeaconCacheOptions,
+  BeaconSnapshot,
+  ExportBeaconSnapshotOptions,
+  ContractEpoch,
+  MakeBeaconOptions,
+  OnchainClaimInfo,
+  OnchainCompleteClaimData,
+  OnchainProof,
+  OnchainVerificationResult,
+  ReclaimContractClient,
+} from './utils/types';
+import { EpochNotInSnapshotError, InvalidParamError } from './utils/errors';
+import { validateBeaconSnapshot } from './utils/validationUtils';
 import { Reclaim__factory as ReclaimFactory } from './contract-types';
 import CONTRACTS_CONFIG from './contract-types/config.json';
 import '@ethersproject/shims';
 import { Contract, ethers } from 'ethers';
+import loggerModule from './utils/logger';
+const logger = loggerModule.logger;
 
-const DEFAULT_CHAIN_ID = 11155420;
+export const DEFAULT_CHAIN_ID = 11155420;
 
-export function makeBeacon(chainId?: number): Beacon | undefined {
+const BEACON_CACHE_KEY_PREFIX = 'reclaim:beacon:';
+
+// Time an RPC endpoint gets to respond before the next one is also queried
+const RPC_STALL_TIMEOUT_MS = 2000;
+
+// Beacons without a persistent cache are shared so their epoch cache outlives a call
+const existingBeaconsMap: { [key: string]: Beacon } = {};
+
+// Return values of the Reclaim contract functions, as decoded by ethers
+type ContractWitness = { addr: string; host: string };
+
+type ContractEpochStruct = {
+  id: number;
+  timestampStart: number;
+  timestampEnd: number;
+  witnesses: ContractWitness[];
+  minimumWitnessesForClaimCreation: number;
+};
+
+type ReclaimContract = Contract & {
+  fetchEpoch(epoch: number): Promise<ContractEpochStruct>;
+  currentEpoch(): Promise<number>;
+  epochDurationS(): Promise<number>;
+  fetchWitnessesForClaim(
+    epoch: number,
+    identifier: string,
+    timestampS: number
+  ): Promise<ContractWitness[]>;
+  assertValidEpochAndSignedClaim(
+    epoch: number,
+    claimInfo: OnchainClaimInfo,
+    claimData: OnchainCompleteClaimData,
+    signatures: string[]
+  ): Promise<void>;
+};
+
+export function makeBeacon(
+  chainId?: number,
+  options: MakeBeaconOptions = {}
+): Beacon | undefined {
   chainId = chainId || DEFAULT_CHAIN_ID;
-  const contract = getContract(chainId);
+  const chainKey = `0x${chainId.toString(16)}`;
+  const beaconKey = getContractKey(chainKey, options);
+  // Beacons with their own store or epoch listeners aren't shared
+  const isShared =
+    !options.store && !options.watchEpochs && !options.onEpochChange;
+  if (isShared && existingBeaconsMap[beaconKey]) {
+    return existingBeaconsMap[beaconKey];
+  }
+  const contract = makeReclaimContract(chainId, options);
   if (contract) {
-    return makeBeaconCacheable({
-      async getState(epochId: number | undefined): Promise<BeaconState> {
-        //@ts-ignore
-        const epoch = await contract.fetchEpoch(epochId || 0);
-        if (!epoch.id) {
-          throw new Error(`Invalid epoch ID: ${epochId}`);
-        }
+    const beacon = makeBeaconCacheable(
+      {
+        async getState(epochId: number | undefined): Promise<BeaconState> {
+          const epoch = await contract.fetchEpoch(epochId);
+          if (!epoch.id) {
+            throw new Error(`Invalid epoch ID: ${epochId}`);
+          }
 
-        return {
-          epoch: epoch.id,
-          witnesses: epoch.witnesses.map((w: any) => ({
-            id: w.addr.toLowerCase(),
-            url: w.host,
-          })),
-          witnessesRequiredForClaim: epoch.minimumWitnessesForClaimCreation,
-          nextEpochTimestampS: epoch.timestampEnd,
-        };
+          return toBeaconState(epoch);
+        },
       },
-    });
+      {
+        store: options.store,
+        keyPrefix: `${BEACON_CACHE_KEY_PREFIX}${chainKey}:`,
+        subscribe: options.watchEpochs
+          ? (onEpoch) =>
+              contract.onEpochAdded((epoch) => onEpoch(toBeaconState(epoch)))
+          : undefined,
+        onEpochChange: options.onEpochChange,
+      }
+    );
+    if (isShared) {
+      existingBeaconsMap[beaconKey] = beacon;
+    }
+    return beacon;
   } else {
     return undefined;
   }
 }
 
-export function makeBeaconCacheable(beacon: Beacon): Beacon {
+/**
+ * Creates a typed client for the read-only functions of a Reclaim contract
+ * @param chainId - The chain of the contract (default: DEFAULT_CHAIN_ID)
+ * @param options - The RPC endpoints to call
+ * @returns The client
+ * @throws Error if no Reclaim contract is deployed on the chain
+ */
+export function makeReclaimContract(
+  chainId: number = DEFAULT_CHAIN_ID,
+  options: MakeBeaconOptions = {}
+): ReclaimContractClient {
+  const contract = getContract(chainId, options);
+  return {
+    chainId,
+    address: contract.address,
+    async fetchEpoch(epoch?: number): Promise<ContractEpoch> {
+      return toContractEpoch(await contract.fetchEpoch(epoch || 0));
+    },
+    currentEpoch: () => contract.currentEpoch(),
+    epochDurationS: () => contract.epochDurationS(),
+    async fetchWitnessesForClaim(
+      epoch: number,
+      identifier: string,
+      timestampS: number
+    ): Promise<WitnessData[]> {
+      const witnesses = await contract.fetchWitnessesForClaim(
+        epoch,
+        identifier,
+        timestampS
+      );
+      return witnesses.map(toWitnessData);
+    },
+    onEpochAdded(listener: (epoch: ContractEpoch) => void): () => void {
+      const handler = (epoch: ContractEpochStruct) =>
+        listener(toContractEpoch(epoch));
+      contract.on('EpochAdded', handler);
+      return () => {
+        contract.off('EpochAdded', handler);
+      };
+    },
+  };
+}
+
+function toWitnessData({ addr, host }: ContractWitness): WitnessData {
+  return { id: addr.toLowerCase(), url: host };
+}
+
+function toContractEpoch(epoch: ContractEpochStruct): ContractEpoch {
+  return {
+    id: epoch.id,
+    timestampStart: epoch.timestampStart,
+    timestampEnd: epoch.timestampEnd,
+    witnesses: epoch.witnesses.map(toWitnessData),
+    minimumWitnessesForClaimCreation: epoch.minimumWitnessesForClaimCreation,
+  };
+}
+
+function toBeaconState(epoch: ContractEpoch): BeaconState {
+  return {
+    epoch: epoch.id,
+    witnesses: epoch.witnesses,
+    witnessesRequiredForClaim: epoch.minimumWitnessesForClaimCreation,
+    nextEpochTimestampS: epoch.timestampEnd,
+  };
+}
+
+/**
+ * Reads the witness sets of some epochs so proofs can later be verified offline
+ * @param options - The chain or beacon to read from and the epochs to include
+ * @returns A promise that resolves to a JSON-serializable snapshot
+ */
+export async function exportBeaconSnapshot({
+  chainId,
+  beacon,
+  epochs,
+  rpcUrls,
+  rpcQuorum,
+}: ExportBeaconSnapshotOptions = {}): Promise<BeaconSnapshot> {
+  const source = beacon ?? makeBeacon(chainId, { rpcUrls, rpcQuorum });
+  if (!source) {
+    throw new InvalidParamError('No beacon available to export a snapshot');
+  }
+  const states = epochs
+    ? await Promise.all(epochs.map((epoch) => source.getState(epoch)))
+    : [await source.getState()];
+
+  return {
+    chainId: beacon ? chainId : chainId || DEFAULT_CHAIN_ID,
+    states: states.map((state) => ({
+      epoch: state.epoch,
+      witnesses: state.witnesses.map(({ id, url }) => ({
+        id: id.toLowerCase(),
+        url,
+      })),
+      witnessesRequiredForClaim: state.witnessesRequiredForClaim,
+      nextEpochTimestampS: state.nextEpochTimestampS,
+    })),
+  };
+}
+
+/**
+ * Creates a beacon that serves the epochs of a snapshot without any network access
+ * @param snapshot - The snapshot, or its JSON string
+ * @returns The beacon. Without an epoch, getState returns the latest epoch of the snapshot
+ * @throws InvalidParamError if the snapshot is malformed
+ */
+export function makeBeaconFromSnapshot(
+  snapshot: BeaconSnapshot | string
+): Beacon {
+  let parsed: BeaconSnapshot;
+  try {
+    parsed = typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot;
+  } catch (error) {
+    throw new InvalidParamError('Invalid JSON string provided as snapshot');
+  }
+  validateBeaconSnapshot(parsed, 'makeBeaconFromSnapshot');
+
+  const states = new Map(parsed.states.map((state) => [state.epoch, state]));
+  const latestEpoch = Math.max(...states.keys());
+
+  return {
+    async getState(epoch?: number): Promise<BeaconState> {
+      const state = states.get(epoch || latestEpoch);
+      if (!state) {
+        throw new EpochNotInSnapshotError(
+          `Epoch ${epoch} is not in the snapshot, export a snapshot that includes it`
+        );
+      }
+      return state;
+    },
+  };
+}
+
+/**
+ * Caches the states returned by a beacon
+ * The current epoch is cached until nextEpochTimestampS, or until a newer epoch is
+ * announced by subscribe. Past epochs never change, so they are also written to the
+ * persistent store when one is given
+ * @param beacon - The beacon to cache
+ * @param options - The persistent store, the prefix of its keys and the epoch listeners
+ * @returns The caching beacon
+ */
+export function makeBeaconCacheable(
+  beacon: Beacon,
+  {
+    store,
+    keyPrefix = BEACON_CACHE_KEY_PREFIX,
+    subscribe,
+    onEpochChange,
+  }: BeaconCacheOptions = {}
+): Beacon {
   const cache: { [epochId: number]: Promise<BeaconState> } = {};
+  let current: { state: Promise<BeaconState>; expiresAt?: number } | undefined;
+  let latestEpoch: number | undefined;
+
+  // Records the current epoch. The first epoch read isn't a change, while an
+  // announced epoch always is
+  const trackEpoch = (state: BeaconState, isAnnounced: boolean) => {
+    if (latestEpoch !== undefined && state.epoch <= latestEpoch) {
+      return;
+    }
+    const isChange = isAnnounced || latestEpoch !== undefined;
+    latestEpoch = state.epoch;
+    if (isChange && onEpochChange) {
+      try {
+        onEpochChange(state);
+      } catch (err) {
+        logger.info('onEpochChange listener failed', err);
+      }
+    }
+  };
+
+  const unsubscribe = subscribe?.((state) => {
+    if (latestEpoch !== undefined && state.epoch <= latestEpoch) {
+      return;
+    }
+    current = {
+      state: Promise.resolve(state),
+      expiresAt: state.nextEpochTimestampS * 1000,
+    };
+    trackEpoch(state, true);
+  });
+
+  const isPast = (state: BeaconState) =>
+    state.nextEpochTimestampS > 0 &&
+    state.nextEpochTimestampS * 1000 <= Date.now();
+
+  const readStored = async (epochId: number) => {
+    try {
+      const stored = await store?.get(`${keyPrefix}${epochId}`);
+      return stored ? (JSON.parse(stored) as BeaconState) : undefined;
+    } catch (err) {
+      logger.info(`Failed to read cached epoch ${epochId}`, err);
+      return undefined;
+    }
+  };
+
+  const fetchEpoch = async (epochId: number): Promise<BeaconState> => {
+    const stored = await readStored(epochId);
+    if (stored) {
+      return stored;
+    }
+    const state = await beacon.getState(epochId);
+    if (store && isPast(state)) {
+      store
+        .set(`${keyPrefix}${epochId}`, JSON.stringify(state))
+        .catch((err) => logger.info(`Failed to cache epoch ${epochId}`, err));
+    }
+    return state;
+  };
 
   return {
     ...beacon,
     async getState(epochId: number | undefined): Promise<BeaconState> {
       if (!epochId) {
-        // TODO: add cache here
-        const state = await beacon.getState();
-        return state;
+        if (
+          !current ||
+          (current.expiresAt !== undefined && Date.now() >= current.expiresAt)
+        ) {
+          const entry: NonNullable<typeof current> = {
+            state: beacon.getState(),
+          };
+          current = entry;
+          entry.state.then(
+            (state) => {
+              entry.expiresAt = state.nextEpochTimestampS * 1000;
+              trackEpoch(state, false);
+            },
+            () => {
+              // Failed lookups are retried by the next call
+              if (current === entry) {
+                current = undefined;
+              }
+            }
+          );
+        }
+        return current.state;
       }
 
       const key = epochId;
 
       if (!cache[key]) {
-        cache[key] = beacon.getState(epochId);
+        const state = fetchEpoch(epochId);
+        cache[key] = state;
+        state.catch(() => {
+          if (cache[key] === state) {
+            delete cache[key];
+          }
+        });
       }
 
-      return cache[key] as unknown as BeaconState;
+      return cache[key] as Promise<BeaconState>;
+    },
+    async close(): Promise<void> {
+      unsubscribe?.();
+      await beacon.close?.();
     },
   };
 }
 
-const existingContractsMap: { [chain: string]: Contract } = {};
+/**
+ * Checks a proof with the Reclaim contract's assertValidEpochAndSignedClaim view
+ * @param proof - The proof in the contract's struct format
+ * @param chainId - The chain of the contract
+ * @param options - The RPC endpoints to call
+ * @returns Whether the contract accepted the proof, and its revert reason if not
+ * @throws The RPC error if the call failed for another reason than a revert
+ */
+export async function verifyClaimOnchain(
+  { claimInfo, signedClaim }: OnchainProof,
+  chainId: number,
+  options: MakeBeaconOptions = {}
+): Promise<OnchainVerificationResult> {
+  const contract = getContract(chainId, options);
+  try {
+    await contract.assertValidEpochAndSignedClaim(
+      signedClaim.claim.epoch,
+      claimInfo,
+      signedClaim.claim,
+      signedClaim.signatures
+    );
+    return { isVerified: true };
+  } catch (e: Error | unknown) {
+    const { code, reason, errorName } = (e ?? {}) as {
+      code?: string;
+      reason?: string;
+      errorName?: string;
+    };
+    // RpcProvider throws RPC failures as they are, so this is a revert
+    if (code !== ethers.errors.CALL_EXCEPTION) {
+      throw e;
+    }
+    return {
+      isVerified: false,
+      revertReason: reason ?? errorName ?? 'execution reverted',
+    };
+  }
+}
+
+export function isChainSupported(chainId: number): boolean {
+  return `0x${chainId.toString(16)}` in CONTRACTS_CONFIG;
+}
 
-function getContract(chainId: number): Contract {
+const existingContractsMap: { [key: string]: ReclaimContract } = {};
+
+// Chains with the same RPC configuration share a contract
+function getContractKey(
+  chainKey: string,
+  { rpcUrls = [], rpcQuorum = 1 }: MakeBeaconOptions
+): string {
+  return [chainKey, rpcQuorum, ...rpcUrls].join('|');
+}
+
+function getContract(
+  chainId: number,
+  options: MakeBeaconOptions = {}
+): ReclaimContract {
   const chainKey = `0x${chainId.toString(16)}`;
-  if (!existingContractsMap[chainKey]) {
+  const contractKey = getContractKey(chainKey, options);
+  if (!existingContractsMap[contractKey]) {
     const contractData =
       CONTRACTS_CONFIG[chainKey as keyof typeof CONTRACTS_CONFIG];
     if (!contractData) {
       throw new Error(`Unsupported chain: "${chainKey}"`);
     }
 
-    const rpcProvider = new ethers.providers.JsonRpcProvider(
-      contractData.rpcUrl
-    );
-    existingContractsMap[chainKey] = ReclaimFactory.connect(
+    existingContractsMap[contractKey] = ReclaimFactory.connect(
       contractData.address,
-      rpcProvider
-    );
+      makeRpcProvider(
+        chainId,
+        options.rpcUrls ?? [contractData.rpcUrl],
+        options.rpcQuorum
+      )
+    ) as ReclaimContract;
   }
 
-  return existingContractsMap[chainKey] as Contract;
+  return existingContractsMap[contractKey] as ReclaimContract;
+}
+
+// Endpoints are tried in order, a stalled or failing one hands over to the next.
+// With a quorum, that many endpoints must return the same result
+// ethers reports any failed eth_call as CALL_EXCEPTION, which FallbackProvider
+// forwards as a revert instead of querying the next endpoint. The RPC error is
+// thrown instead unless the node reported a revert
+class RpcProvider extends ethers.providers.JsonRpcProvider {
+  async perform(method: string, params: any): Promise<any> {
+    try {
+      return await super.perform(method, params);
+    } catch (e: Error | unknown) {
+      const { code, error } = (e ?? {}) as { code?: string; error?: Error };
+      if (
+        code === ethers.errors.CALL_EXCEPTION &&
+        error !== undefined &&
+        !/revert/i.test(String(error.message))
+      ) {
+        throw error;
+      }
+      throw e;
+    }
+  }
+}
+
+function makeRpcProvider(
+  chainId: number,
+  rpcUrls: string[],
+  quorum = 1
+): ethers.providers.Provider {
+  if (quorum > rpcUrls.length) {
+    throw new InvalidParamError(
+      `rpcQuorum of ${quorum} needs at least as many rpcUrls, got ${rpcUrls.length}`
+    );
+  }
+  if (rpcUrls.length === 1) {
+    return new RpcProvider(rpcUrls[0]);
+  }
+  return new ethers.providers.FallbackProvider(
+    rpcUrls.map((url, index) => ({
+      // The network is passed so the endpoints aren't queried to detect it
+      provider: new RpcProvider(url, chainId),
+      priority: index + 1,
+      weight: 1,
+      stallTimeout: RPC_STALL_TIMEOUT_MS,
+    })),
+    quorum
+  );
 }
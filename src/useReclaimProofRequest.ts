@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Signer } from 'ethers';
+import { ReclaimProofRequest } from './Reclaim';
+import type { Proof } from './utils/interfaces';
+import type {
+  ProofRequestHookStartOptions,
+  ProofRequestHookStatus,
+  SessionHandle,
+  UseReclaimProofRequestOptions,
+  UseReclaimProofRequestResult,
+} from './utils/types';
+import loggerModule from './utils/logger';
+const logger = loggerModule.logger;
+
+// The session started by `start`. The handle is set once startSession resolves
+type ActiveSession = { handle?: SessionHandle };
+
+/**
+ * Initializes a proof request and tracks its session in component state
+ * The request is initialized again when any argument changes; options are compared
+ * by value and a Signer by its address, so an inline options object or a Signer
+ * created during render doesn't re-initialize on every render
+ * @param applicationId - The ID of the application
+ * @param appSecretOrSigner - The application secret, or a Signer holding its key
+ * @param providerId - The ID of the provider
+ * @param options - The proof request options, plus a `configure` callback
+ * @returns The request state and the functions to start, cancel and reset it
+ */
+export function useReclaimProofRequest(
+  applicationId: string,
+  appSecretOrSigner: string | Signer,
+  providerId: string,
+  options?: UseReclaimProofRequestOptions
+): UseReclaimProofRequestResult {
+  const [request, setRequest] = useState<ReclaimProofRequest | null>(null);
+  const [requestUrl, setRequestUrl] = useState<string | null>(null);
+  const [status, setStatus] = useState<ProofRequestHookStatus>('initializing');
+  const [proofs, setProofs] = useState<Proof[]>([]);
+  const [error, setError] = useState<Error | null>(null);
+  // Incremented by reset to initialize a new request
+  const [generation, setGeneration] = useState(0);
+  const sessionRef = useRef<ActiveSession | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const optionsKey = JSON.stringify(options ?? {});
+  const credentialRef = useRef(appSecretOrSigner);
+  credentialRef.current = appSecretOrSigner;
+  // The app secret, or the address of the Signer once it is known
+  const [credentialKey, setCredentialKey] = useState<string | null>(
+    typeof appSecretOrSigner === 'string' ? appSecretOrSigner : null
+  );
+
+  useEffect(() => {
+    if (typeof appSecretOrSigner === 'string') {
+      setCredentialKey(appSecretOrSigner);
+      return;
+    }
+    let isActive = true;
+    appSecretOrSigner.getAddress().then(
+      (address) => {
+        // Setting the same address again doesn't re-render
+        if (isActive) setCredentialKey(address.toLowerCase());
+      },
+      (err) => {
+        if (!isActive) return;
+        logger.info('Failed to read the signer address in hook', err);
+        setError(err as Error);
+        setStatus('failed');
+      }
+    );
+    return () => {
+      isActive = false;
+    };
+  }, [appSecretOrSigner]);
+
+  const cancelSession = () => {
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    session?.handle?.cancel();
+  };
+
+  useEffect(() => {
+    if (credentialKey === null) return;
+    // Results of a stale run are dropped, which covers unmounting, prop changes
+    // and the first run of a StrictMode double invocation
+    let isActive = true;
+    setRequest(null);
+    setRequestUrl(null);
+    setProofs([]);
+    setError(null);
+    setStatus('initializing');
+
+    const { configure, ...requestOptions } = optionsRef.current ?? {};
+    const initialize = async () => {
+      try {
+        const proofRequest = await ReclaimProofRequest.init(
+          applicationId,
+          credentialRef.current,
+          providerId,
+          requestOptions
+        );
+        if (!isActive) return;
+        if (configure) {
+          configure(proofRequest);
+        }
+        const url = await proofRequest.getRequestUrl();
+        if (!isActive) return;
+        setRequest(proofRequest);
+        setRequestUrl(url);
+        setStatus('ready');
+      } catch (err) {
+        if (!isActive) return;
+        logger.info('Failed to initialize proof request in hook', err);
+        setError(err as Error);
+        setStatus('failed');
+      }
+    };
+    initialize();
+
+    return () => {
+      isActive = false;
+      cancelSession();
+    };
+  }, [applicationId, credentialKey, providerId, optionsKey, generation]);
+
+  const start = useCallback(
+    async (startOptions: ProofRequestHookStartOptions = {}) => {
+      if (!request || sessionRef.current) return;
+      const session: ActiveSession = {};
+      sessionRef.current = session;
+      const isCurrent = () => sessionRef.current === session;
+
+      setProofs([]);
+      setError(null);
+      setStatus('in_progress');
+      try {
+        const handle = await request.startSession({
+          ...startOptions,
+          onSuccess: (result) => {
+            if (!isCurrent()) return;
+            sessionRef.current = null;
+            setProofs(
+              typeof result === 'string' ? [] : ([] as Proof[]).concat(result)
+            );
+            setStatus('completed');
+          },
+          onError: (err) => {
+            if (!isCurrent()) return;
+            sessionRef.current = null;
+            setError(err);
+            setStatus('failed');
+          },
+        });
+        session.handle = handle;
+        // Cancelled or unmounted while the session was starting
+        if (!isCurrent()) {
+          handle.cancel();
+        }
+      } catch (err) {
+        if (!isCurrent()) return;
+        sessionRef.current = null;
+        setError(err as Error);
+        setStatus('failed');
+      }
+    },
+    [request]
+  );
+
+  const cancel = useCallback(() => {
+    if (!sessionRef.current) return;
+    cancelSession();
+    setStatus('ready');
+  }, []);
+
+  const reset = useCallback(() => {
+    cancelSession();
+    setGeneration((value) => value + 1);
+  }, []);
+
+  return { request, requestUrl, status, proofs, error, start, cancel, reset };
+}
@@ -0,0 +1,150 @@
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  isRetryableStatus,
+  sendRequest,
+} from '../httpUtils';
+import type { HttpResponse, HttpTransport } from '../types';
+import { setLogLevel } from '../logger';
+
+setLogLevel('silent');
+
+const noDelay = { initialDelayMs: 0, maxDelayMs: 0 };
+
+function response(status: number): HttpResponse {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => ({}),
+  };
+}
+
+function fakeTransport(results: (number | Error)[]) {
+  const calls: string[] = [];
+  const transport: HttpTransport = async (url) => {
+    calls.push(url);
+    const result = results.shift();
+    if (result instanceof Error) {
+      throw result;
+    }
+    return response(result as number);
+  };
+  return { transport, calls };
+}
+
+describe('isRetryableStatus', () => {
+  it('should retry server errors and rate limiting', () => {
+    expect(isRetryableStatus(500)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+    expect(isRetryableStatus(429)).toBe(true);
+  });
+
+  it('should not retry client errors or successful responses', () => {
+    expect(isRetryableStatus(200)).toBe(false);
+    expect(isRetryableStatus(400)).toBe(false);
+    expect(isRetryableStatus(404)).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('should grow exponentially up to the maximum delay', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0 };
+    expect(getRetryDelay(1, policy)).toBe(500);
+    expect(getRetryDelay(2, policy)).toBe(1000);
+    expect(getRetryDelay(3, policy)).toBe(2000);
+    expect(getRetryDelay(10, policy)).toBe(5000);
+  });
+
+  it('should remove at most the jitter fraction of the delay', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0.5 };
+    expect(getRetryDelay(1, policy, () => 0)).toBe(500);
+    expect(getRetryDelay(1, policy, () => 1)).toBe(250);
+  });
+});
+
+describe('sendRequest', () => {
+  it('should retry transient failures until a response succeeds', async () => {
+    const { transport, calls } = fakeTransport([
+      new Error('offline'),
+      503,
+      200,
+    ]);
+    const res = await sendRequest(
+      'https://example.com',
+      { method: 'GET', headers: {} },
+      { transport, retry: noDelay }
+    );
+    expect(res.status).toBe(200);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('should return client errors without retrying', async () => {
+    const { transport, calls } = fakeTransport([404, 200]);
+    const res = await sendRequest(
+      'https://example.com',
+      { method: 'GET', headers: {} },
+      { transport, retry: noDelay }
+    );
+    expect(res.status).toBe(404);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('should return the last response once attempts are exhausted', async () => {
+    const { transport, calls } = fakeTransport([500, 502]);
+    const res = await sendRequest(
+      'https://example.com',
+      { method: 'GET', headers: {} },
+      { transport, retry: { ...noDelay, maxAttempts: 2 } }
+    );
+    expect(res.status).toBe(502);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('should not resend non-idempotent requests after network errors', async () => {
+    const { transport, calls } = fakeTransport([new Error('reset'), 200]);
+    await expect(
+      sendRequest(
+        'https://example.com',
+        { method: 'POST', headers: {} },
+        { transport, retry: noDelay },
+        { idempotent: false }
+      )
+    ).rejects.toMatchObject({ name: 'NetworkError' });
+    expect(calls).toHaveLength(1);
+
+    const { transport: unavailable, calls: retried } = fakeTransport([
+      503, 200,
+    ]);
+    const res = await sendRequest(
+      'https://example.com',
+      { method: 'POST', headers: {} },
+      { transport: unavailable, retry: noDelay },
+      { idempotent: false }
+    );
+    expect(res.status).toBe(200);
+    expect(retried).toHaveLength(2);
+  });
+
+  it('should not resend non-idempotent requests after ambiguous server errors', async () => {
+    const { transport, calls } = fakeTransport([502, 200]);
+    const res = await sendRequest(
+      'https://example.com',
+      { method: 'POST', headers: {} },
+      { transport, retry: noDelay },
+      { idempotent: false }
+    );
+    expect(res.status).toBe(502);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('should throw a NetworkError when no attempt gets a response', async () => {
+    const { transport } = fakeTransport([new Error('a'), new Error('b')]);
+    await expect(
+      sendRequest(
+        'https://example.com',
+        { method: 'GET', headers: {} },
+        { transport, retry: { ...noDelay, maxAttempts: 2 } }
+      )
+    ).rejects.toMatchObject({ name: 'NetworkError' });
+  });
+});
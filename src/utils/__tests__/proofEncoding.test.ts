@@ -0,0 +1,106 @@
+import { verifyProof } from '../../Reclaim';
+import {
+  createBeaconSignedProof,
+  createFixtureBeacon,
+} from '../../__fixtures__/proofs';
+import canonicalize from 'canonicalize';
+import { decodeProof, encodeProof } from '../proofEncoding';
+import { setLogLevel } from '../logger';
+
+setLogLevel('silent');
+
+// Parameters shaped like those of an HTTP provider, a few KB long
+function createProviderParameters(): string {
+  const fields = ['login', 'name', 'followers', 'public_repos', 'created_at'];
+  return canonicalize({
+    url: 'https://api.github.com/users/{{username}}',
+    method: 'GET',
+    headers: {
+      'accept': 'application/vnd.github+json',
+      'user-agent':
+        'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36',
+      'x-github-api-version': '2022-11-28',
+    },
+    body: '',
+    geoLocation: '',
+    paramValues: { username: 'alice' },
+    responseMatches: fields.flatMap((field) => [
+      { type: 'contains', value: `"${field}":` },
+      {
+        type: 'regex',
+        value: `"${field}":\\s*"?(?<${field}>[^",}]*)"?`,
+        invert: false,
+      },
+    ]),
+    responseRedactions: fields.map((field) => ({
+      jsonPath: `$.${field}`,
+      xPath: '',
+      regex: `"${field}":\\s*"?(?<${field}>[^",}]*)"?`,
+      hash: '',
+    })),
+    additionalClientOptions: {
+      supportedProtocolVersions: ['TLS1_3', 'TLS1_2'],
+      cipherSuites: [
+        'TLS_CHACHA20_POLY1305_SHA256',
+        'TLS_AES_256_GCM_SHA384',
+        'TLS_AES_128_GCM_SHA256',
+        'TLS_ECDHE_ECDSA_WITH_CHACHA20_POLY1305_SHA256',
+        'TLS_ECDHE_RSA_WITH_CHACHA20_POLY1305_SHA256',
+        'TLS_ECDHE_ECDSA_WITH_AES_256_GCM_SHA384',
+        'TLS_ECDHE_RSA_WITH_AES_256_GCM_SHA384',
+      ],
+    },
+  }) as string;
+}
+
+describe('encodeProof', () => {
+  it('should round trip a proof that still verifies', async () => {
+    const proof = await createBeaconSignedProof();
+    proof.publicData = { reference: 'order-42' };
+
+    const encoded = encodeProof(proof);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+
+    const decoded = decodeProof(encoded);
+    expect(decoded).toEqual(proof);
+    await expect(
+      verifyProof(decoded, { beacon: createFixtureBeacon() })
+    ).resolves.toBe(true);
+  });
+
+  it('should compress proofs with realistic parameters', async () => {
+    const proof = await createBeaconSignedProof({
+      parameters: createProviderParameters(),
+    });
+    const json = JSON.stringify(proof);
+    expect(json.length).toBeGreaterThan(3000);
+
+    const encoded = encodeProof(proof);
+    expect(encoded.length).toBeLessThan(json.length / 2);
+    expect(decodeProof(encoded)).toEqual(proof);
+  });
+
+  it('should keep fields that are not lowercase hex as they are', async () => {
+    const proof = await createBeaconSignedProof();
+    proof.claimData.owner = proof.claimData.owner.toUpperCase();
+    proof.identifier = `"${proof.identifier}"`;
+    proof.witnesses = [{ id: 'manual-verify', url: 'manual-verify' }];
+    proof.extractedParameterValues = undefined;
+
+    expect(decodeProof(encodeProof(proof))).toEqual(proof);
+  });
+
+  it('should reject malformed encodings', async () => {
+    const encoded = encodeProof(await createBeaconSignedProof());
+
+    expect(() => decodeProof('not base64!')).toThrow(
+      expect.objectContaining({ name: 'ProofDecodingError' })
+    );
+    expect(() => decodeProof(encoded.slice(0, -10))).toThrow(
+      'Encoded proof is truncated'
+    );
+    expect(() => decodeProof(`${encoded}AA`)).toThrow(
+      expect.objectContaining({ name: 'ProofDecodingError' })
+    );
+  });
+});
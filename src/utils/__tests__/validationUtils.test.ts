@@ -0,0 +1,46 @@
+import { createSignedProof } from '../../__fixtures__/proofs';
+import { parseProof } from '../validationUtils';
+import { setLogLevel } from '../logger';
+
+setLogLevel('silent');
+
+describe('parseProof', () => {
+  it('should return the known fields of a valid proof', async () => {
+    const proof = await createSignedProof();
+
+    expect(parseProof({ ...proof, extra: true })).toEqual(proof);
+    expect(parseProof(JSON.stringify(proof))).toEqual(proof);
+  });
+
+  it('should list the path of every malformed field', async () => {
+    const proof: any = await createSignedProof();
+    delete proof.signatures;
+    proof.claimData.epoch = '1';
+    proof.claimData.owner = '0x1234';
+    proof.witnesses[0].url = 42;
+
+    expect(() => parseProof(proof)).toThrow(
+      expect.objectContaining({
+        name: 'ProofValidationError',
+        issues: [
+          { path: 'proof.claimData.owner', message: 'must be an address' },
+          {
+            path: 'proof.claimData.epoch',
+            message: 'must be a non-negative integer',
+          },
+          { path: 'proof.signatures', message: 'must be an array' },
+          { path: 'proof.witnesses[0].url', message: 'must be a string' },
+        ],
+      })
+    );
+  });
+
+  it('should reject input that is not a proof object', () => {
+    expect(() => parseProof('{')).toThrow(
+      'Invalid proof: proof must be valid JSON'
+    );
+    expect(() => parseProof([])).toThrow(
+      'Invalid proof: proof must be an object'
+    );
+  });
+});
@@ -1,14 +1,37 @@
 // Base URL for the backend API
 export const BACKEND_BASE_URL = 'https://api.reclaimprotocol.org';
 
+// Paths appended to the backend base URL
+export const BACKEND_PATHS = {
+  CALLBACK: '/api/sdk/callback?callbackId=',
+  STATUS: '/api/sdk/session/',
+  STATUS_STREAM: '/api/sdk/session/stream/',
+  STATUS_SOCKET: '/api/sdk/session/ws/',
+};
+
 // Constant values used throughout the application
 export const constants = {
   // Default callback URL for Reclaim protocol
-  DEFAULT_RECLAIM_CALLBACK_URL: `${BACKEND_BASE_URL}/api/sdk/callback?callbackId=`,
+  DEFAULT_RECLAIM_CALLBACK_URL: `${BACKEND_BASE_URL}${BACKEND_PATHS.CALLBACK}`,
 
   // Default status URL for Reclaim sessions
-  DEFAULT_RECLAIM_STATUS_URL: `${BACKEND_BASE_URL}/api/sdk/session/`,
+  DEFAULT_RECLAIM_STATUS_URL: `${BACKEND_BASE_URL}${BACKEND_PATHS.STATUS}`,
 
   // URL for sharing Reclaim templates
   RECLAIM_SHARE_URL: 'https://share.reclaimprotocol.org/verifier/?template=',
+
+  // URLs opening the Android instant app and the iOS App Clip with a template
+  RECLAIM_INSTANT_APP_URL:
+    'https://share.reclaimprotocol.org/verify/?template=',
+  RECLAIM_APP_CLIP_URL:
+    'https://appclip.apple.com/id?p=org.reclaimprotocol.app.clip&template=',
+};
+
+// Default status polling schedule
+export const DEFAULT_POLLING_OPTIONS = {
+  INITIAL_INTERVAL_MS: 3000,
+  BACKOFF_FACTOR: 1,
+  MAX_INTERVAL_MS: 30000,
+  SESSION_TIMEOUT_MS: 1000 * 60 * 10,
+  FAILURE_GRACE_PERIOD_MS: 30000,
 };
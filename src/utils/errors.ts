@@ -1,3 +1,5 @@
+import type { ProofValidationIssue } from './types';
+
 function createErrorClass(name: string) {
   return class extends Error {
     constructor(message?: string, public innerError?: Error) {
@@ -15,6 +17,7 @@ export const ProofNotVerifiedError = createErrorClass('ProofNotVerifiedError');
 export const SessionNotStartedError = createErrorClass(
   'SessionNotStartedError'
 );
+export const SessionCancelledError = createErrorClass('SessionCancelledError');
 export const ProviderNotFoundError = createErrorClass('ProviderNotFoundError');
 
 export const SignatureGeneratingError = createErrorClass(
@@ -40,7 +43,31 @@ export const GetAppCallbackUrlError = createErrorClass(
 );
 export const GetRequestUrlError = createErrorClass('GetRequestUrlError');
 export const StatusUrlError = createErrorClass('StatusUrlError');
+export const NetworkError = createErrorClass('NetworkError');
 export const ProofNotFoundError = createErrorClass('ProofNotFoundError');
 export const ProofSubmissionFailedError = createErrorClass(
   'ProofSubmissionFailedError'
 );
+export const ProofMismatchError = createErrorClass('ProofMismatchError');
+export const OwnerMismatchError = createErrorClass('OwnerMismatchError');
+export const ContractRevertError = createErrorClass('ContractRevertError');
+export const VerificationMismatchError = createErrorClass(
+  'VerificationMismatchError'
+);
+export const StaleProofError = createErrorClass('StaleProofError');
+export const EpochNotInSnapshotError = createErrorClass(
+  'EpochNotInSnapshotError'
+);
+export const ProofDecodingError = createErrorClass('ProofDecodingError');
+
+export class ProofValidationError extends createErrorClass(
+  'ProofValidationError'
+) {
+  constructor(public issues: ProofValidationIssue[]) {
+    super(
+      `Invalid proof: ${issues
+        .map(({ path, message }) => `${path} ${message}`)
+        .join('; ')}`
+    );
+  }
+}
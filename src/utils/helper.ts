@@ -1,5 +1,11 @@
-import type { OnError } from './types';
+import type { OnError, PollingOptions, ReclaimEndpoints } from './types';
 import { TimeoutError } from './errors';
+import {
+  BACKEND_BASE_URL,
+  BACKEND_PATHS,
+  constants,
+  DEFAULT_POLLING_OPTIONS,
+} from './constants';
 import loggerModule from './logger';
 const logger = loggerModule.logger;
 
@@ -25,25 +31,92 @@ export function replaceAll(str: string, find: string, replace: string): string {
 }
 
 /**
- * Schedules a task to end an interval after a specified timeout
+ * Schedules a task to end a session that has not received proofs within the timeout
  * @param sessionId - The ID of the current session
- * @param intervals - A Map containing the intervals
  * @param onFailureCallback - Callback function to be called on failure
  * @param timeout - Timeout in milliseconds (default: 10 minutes)
+ * @returns The scheduled timer, to be cleared if the session ends earlier
  */
 export function scheduleIntervalEndingTask(
   sessionId: string,
-  intervals: Map<string, NodeJS.Timer>,
   onFailureCallback: OnError,
-  timeout: number = 1000 * 60 * 10
-): void {
-  setTimeout(() => {
-    if (intervals.has(sessionId)) {
-      const message = 'Interval ended without receiving proofs';
-      onFailureCallback(new TimeoutError(message));
-      logger.info(message);
-      clearInterval(intervals.get(sessionId) as NodeJS.Timeout);
-      intervals.delete(sessionId);
-    }
+  timeout: number = DEFAULT_POLLING_OPTIONS.SESSION_TIMEOUT_MS
+): ReturnType<typeof setTimeout> {
+  return setTimeout(() => {
+    const message = `Interval ended without receiving proofs for sessionId: ${sessionId}`;
+    logger.info(message);
+    onFailureCallback(new TimeoutError(message));
   }, timeout);
 }
+
+/**
+ * Resolves the backend URLs for a proof request, falling back to the defaults
+ * When only backendBaseUrl is set, the callback and status URLs are derived from it
+ * @param endpoints - The endpoints configured on the proof request
+ * @returns The complete set of endpoints
+ */
+export function resolveEndpoints(
+  endpoints?: Partial<ReclaimEndpoints>
+): ReclaimEndpoints {
+  const backendBaseUrl = endpoints?.backendBaseUrl ?? BACKEND_BASE_URL;
+  return {
+    backendBaseUrl,
+    callbackUrl:
+      endpoints?.callbackUrl ?? `${backendBaseUrl}${BACKEND_PATHS.CALLBACK}`,
+    statusUrl:
+      endpoints?.statusUrl ?? `${backendBaseUrl}${BACKEND_PATHS.STATUS}`,
+    shareUrl: endpoints?.shareUrl ?? constants.RECLAIM_SHARE_URL,
+    instantAppUrl:
+      endpoints?.instantAppUrl ?? constants.RECLAIM_INSTANT_APP_URL,
+    appClipUrl: endpoints?.appClipUrl ?? constants.RECLAIM_APP_CLIP_URL,
+    statusStreamUrl:
+      endpoints?.statusStreamUrl ??
+      `${backendBaseUrl}${BACKEND_PATHS.STATUS_STREAM}`,
+    statusSocketUrl:
+      endpoints?.statusSocketUrl ??
+      `${backendBaseUrl.replace(/^http/, 'ws')}${BACKEND_PATHS.STATUS_SOCKET}`,
+  };
+}
+
+/**
+ * Resolves the polling schedule for a session, falling back to the defaults
+ * @param polling - The polling options configured on the proof request
+ * @returns The complete polling options
+ */
+export function resolvePollingOptions(
+  polling?: PollingOptions
+): Required<PollingOptions> {
+  return {
+    initialIntervalMs:
+      polling?.initialIntervalMs ?? DEFAULT_POLLING_OPTIONS.INITIAL_INTERVAL_MS,
+    backoffFactor:
+      polling?.backoffFactor ?? DEFAULT_POLLING_OPTIONS.BACKOFF_FACTOR,
+    maxIntervalMs:
+      polling?.maxIntervalMs ?? DEFAULT_POLLING_OPTIONS.MAX_INTERVAL_MS,
+    sessionTimeoutMs:
+      polling?.sessionTimeoutMs ?? DEFAULT_POLLING_OPTIONS.SESSION_TIMEOUT_MS,
+    failureGracePeriodMs:
+      polling?.failureGracePeriodMs ??
+      DEFAULT_POLLING_OPTIONS.FAILURE_GRACE_PERIOD_MS,
+  };
+}
+
+/**
+ * Creates the promise behind SessionHandle.done along with functions to settle it
+ * Observing the promise is optional, so a rejection nobody handles is not reported as unhandled
+ * @returns The promise and its resolve and reject functions
+ */
+export function createSessionCompletion(): {
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (error: Error) => void;
+} {
+  let resolve: () => void = () => {};
+  let reject: (error: Error) => void = () => {};
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  promise.catch(() => {});
+  return { promise, resolve, reject };
+}
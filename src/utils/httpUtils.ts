@@ -0,0 +1,113 @@
+import type {
+  HttpRequestInit,
+  HttpResponse,
+  HttpTransport,
+  RequestConfig,
+  RetryPolicy,
+} from './types';
+import { NetworkError } from './errors';
+import loggerModule from './logger';
+const logger = loggerModule.logger;
+
+// Retry policy used when the caller does not provide one
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 5000,
+  backoffFactor: 2,
+  jitter: 0.5,
+};
+
+// Statuses of requests the server turned away without handling them, the only
+// failures a non-idempotent request is retried after
+const NOT_HANDLED_STATUSES = [429, 503];
+
+/**
+ * Default transport backed by the global fetch implementation
+ * @param url - The URL to request
+ * @param init - The request method, headers and body
+ * @returns A promise that resolves to the HTTP response
+ */
+export const defaultTransport: HttpTransport = (url, init) => fetch(url, init);
+
+/**
+ * Checks whether an HTTP status code is worth retrying
+ * @param status - The HTTP status code
+ * @returns True for server errors (5xx) and rate limiting (429)
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 429;
+}
+
+/**
+ * Computes the delay before the next attempt using exponential backoff with jitter
+ * @param attempt - The number of the attempt that just failed (starting at 1)
+ * @param policy - The retry policy to apply
+ * @param random - Source of randomness, between 0 and 1
+ * @returns The delay in milliseconds
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: Required<RetryPolicy>,
+  random: () => number = Math.random
+): number {
+  const exponentialDelay = Math.min(
+    policy.initialDelayMs * Math.pow(policy.backoffFactor, attempt - 1),
+    policy.maxDelayMs
+  );
+  return Math.round(exponentialDelay * (1 - policy.jitter * random()));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Sends an HTTP request through the configured transport, retrying transient failures
+ * Network errors, 5xx and 429 responses are retried; any other response is returned as is.
+ * A non-idempotent request is only retried after 429 and 503 responses, since the
+ * server may have handled it before a network error or any other server error
+ * @param url - The URL to request
+ * @param init - The request method, headers and body
+ * @param config - The transport and retry policy to use
+ * @param options - Whether the request can safely be sent twice (default: true)
+ * @returns A promise that resolves to the last HTTP response received
+ * @throws NetworkError if every attempt failed without a response
+ */
+export async function sendRequest(
+  url: string,
+  init: HttpRequestInit,
+  config: RequestConfig = {},
+  { idempotent = true }: { idempotent?: boolean } = {}
+): Promise<HttpResponse> {
+  const transport = config.transport ?? defaultTransport;
+  const policy = { ...DEFAULT_RETRY_POLICY, ...config.retry };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await transport(url, init);
+      const isRetryable = idempotent
+        ? isRetryableStatus(response.status)
+        : NOT_HANDLED_STATUSES.includes(response.status);
+      if (!isRetryable || attempt >= policy.maxAttempts) {
+        return response;
+      }
+      logger.info(
+        `Request to ${url} failed with status ${response.status}, retrying (attempt ${attempt} of ${policy.maxAttempts})`
+      );
+    } catch (err) {
+      if (attempt >= policy.maxAttempts || !idempotent) {
+        throw new NetworkError(
+          `Request to ${url} failed after ${attempt} attempts`,
+          err as Error
+        );
+      }
+      logger.info(
+        `Request to ${url} failed, retrying (attempt ${attempt} of ${policy.maxAttempts})`,
+        err
+      );
+    }
+
+    await sleep(getRetryDelay(attempt, policy));
+  }
+}
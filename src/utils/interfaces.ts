@@ -34,6 +34,13 @@ export interface Beacon {
   close?(): Promise<void>;
 }
 
+// Key-value storage used to persist sessions, e.g. backed by AsyncStorage
+export interface SessionStore {
+  get(key: string): Promise<string | null | undefined>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
 export type BeaconState = {
   witnesses: WitnessData[];
   epoch: number;
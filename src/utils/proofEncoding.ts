@@ -0,0 +1,322 @@
+import { ethers } from 'ethers';
+import { deflateSync, FlateErrorCode, inflateSync } from 'fflate';
+import type { Proof, WitnessData } from './interfaces';
+import { InvalidParamError, ProofDecodingError } from './errors';
+
+// Layout of an encoded proof:
+//   version (byte)
+//   length of the compressed fields, then the fields compressed with raw deflate
+// The fields, in order:
+//   claimData: provider, parameters, owner, timestampS, context, identifier, epoch
+//   identifier, only when it differs from claimData.identifier
+//   signatures: count, then each signature
+//   witnesses: count, then each id and url
+//   extractedParameterValues and publicData as JSON
+// Integers are unsigned LEB128 varints and strings are length-prefixed UTF-8.
+// Optional fields start with a presence byte.
+// Hex fields store their bytes when the string is lowercase 0x-prefixed hex, and
+// the string itself otherwise, so every field decodes to the exact same string
+const ENCODING_VERSION = 1;
+
+const HEX_FIELD_TAGS = { STRING: 0, BYTES: 1 };
+
+const CANONICAL_HEX_REGEX = /^0x(?:[0-9a-f]{2})*$/;
+
+type Writer = ReturnType<typeof createWriter>;
+type Reader = ReturnType<typeof createReader>;
+
+/**
+ * Encodes a proof to a compact binary form
+ * @param proof - The proof to encode
+ * @returns The encoded bytes
+ * @throws InvalidParamError if a field can't be encoded
+ */
+export function encodeProofToBytes(proof: Proof): Uint8Array {
+  const { claimData } = proof;
+  const writer = createWriter();
+
+  writer.writeString(claimData.provider);
+  writer.writeString(claimData.parameters);
+  writeHexField(writer, claimData.owner);
+  writer.writeUint(claimData.timestampS, 'claimData.timestampS');
+  writer.writeString(claimData.context);
+  writeHexField(writer, claimData.identifier);
+  writer.writeUint(claimData.epoch, 'claimData.epoch');
+  writeOptional(
+    writer,
+    proof.identifier === claimData.identifier ? undefined : proof.identifier,
+    (identifier) => writeHexField(writer, identifier)
+  );
+
+  writer.writeUint(proof.signatures.length, 'signatures');
+  proof.signatures.forEach((signature) => writeHexField(writer, signature));
+  writer.writeUint(proof.witnesses.length, 'witnesses');
+  proof.witnesses.forEach(({ id, url }) => {
+    writeHexField(writer, id);
+    writer.writeString(url);
+  });
+
+  writeOptional(writer, proof.extractedParameterValues, (values) =>
+    writer.writeString(JSON.stringify(values))
+  );
+  writeOptional(writer, proof.publicData, (publicData) =>
+    writer.writeString(JSON.stringify(publicData))
+  );
+
+  const encoded = createWriter();
+  encoded.writeByte(ENCODING_VERSION);
+  encoded.writeBytes(deflateSync(writer.toBytes(), { level: 9 }));
+  return encoded.toBytes();
+}
+
+/**
+ * Decodes a proof encoded by encodeProofToBytes
+ * @param bytes - The encoded bytes
+ * @returns The proof
+ * @throws ProofDecodingError if the bytes aren't a valid encoded proof
+ */
+export function decodeProofFromBytes(bytes: Uint8Array): Proof {
+  const encoded = createReader(bytes);
+  const version = encoded.readByte();
+  if (version !== ENCODING_VERSION) {
+    throw new ProofDecodingError(
+      `Unsupported proof encoding version ${version}`
+    );
+  }
+  const compressed = encoded.readBytes();
+  if (!encoded.isDone()) {
+    throw new ProofDecodingError('Unexpected bytes after the encoded proof');
+  }
+  const reader = createReader(inflate(compressed));
+
+  const claimData = {
+    provider: reader.readString(),
+    parameters: reader.readString(),
+    owner: readHexField(reader),
+    timestampS: reader.readUint(),
+    context: reader.readString(),
+    identifier: readHexField(reader),
+    epoch: reader.readUint(),
+  };
+  const identifier =
+    readOptional(reader, () => readHexField(reader)) ?? claimData.identifier;
+
+  const signatures = readList(reader, () => readHexField(reader));
+  const witnesses = readList(
+    reader,
+    (): WitnessData => ({ id: readHexField(reader), url: reader.readString() })
+  );
+
+  const proof: Proof = {
+    identifier,
+    claimData,
+    signatures,
+    witnesses,
+    extractedParameterValues: readOptional(reader, () => readJson(reader)),
+  };
+  const publicData = readOptional(reader, () => readJson(reader));
+  if (publicData !== undefined) {
+    proof.publicData = publicData;
+  }
+  if (!reader.isDone()) {
+    throw new ProofDecodingError('Unexpected bytes after the encoded proof');
+  }
+  return proof;
+}
+
+/**
+ * Encodes a proof to a compact base64url string, e.g. for QR codes and deep links
+ * @param proof - The proof to encode
+ * @returns The base64url string, without padding
+ * @throws InvalidParamError if a field can't be encoded
+ */
+export function encodeProof(proof: Proof): string {
+  return ethers.utils.base64
+    .encode(encodeProofToBytes(proof))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/[=]+$/, '');
+}
+
+/**
+ * Decodes a proof encoded by encodeProof
+ * @param encoded - The base64url string
+ * @returns The proof
+ * @throws ProofDecodingError if the string isn't a valid encoded proof
+ */
+export function decodeProof(encoded: string): Proof {
+  if (typeof encoded !== 'string' || !/^[A-Za-z0-9_-]*$/.test(encoded)) {
+    throw new ProofDecodingError('Encoded proof must be a base64url string');
+  }
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  let bytes: Uint8Array;
+  try {
+    bytes = ethers.utils.base64.decode(
+      base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')
+    );
+  } catch (error) {
+    throw new ProofDecodingError('Encoded proof must be a base64url string');
+  }
+  return decodeProofFromBytes(bytes);
+}
+
+function inflate(compressed: Uint8Array): Uint8Array {
+  try {
+    return inflateSync(compressed);
+  } catch (error) {
+    const { code } = error as { code?: number };
+    throw new ProofDecodingError(
+      code === FlateErrorCode.UnexpectedEOF
+        ? 'Encoded proof is truncated'
+        : 'Encoded proof contains malformed compressed data'
+    );
+  }
+}
+
+function writeHexField(writer: Writer, value: string): void {
+  if (CANONICAL_HEX_REGEX.test(value)) {
+    writer.writeByte(HEX_FIELD_TAGS.BYTES);
+    writer.writeBytes(ethers.utils.arrayify(value));
+  } else {
+    writer.writeByte(HEX_FIELD_TAGS.STRING);
+    writer.writeString(value);
+  }
+}
+
+function readHexField(reader: Reader): string {
+  const tag = reader.readByte();
+  if (tag === HEX_FIELD_TAGS.BYTES) {
+    return ethers.utils.hexlify(reader.readBytes());
+  }
+  if (tag === HEX_FIELD_TAGS.STRING) {
+    return reader.readString();
+  }
+  throw new ProofDecodingError(`Unknown field tag ${tag}`);
+}
+
+function writeOptional<T>(
+  writer: Writer,
+  value: T | undefined,
+  writeValue: (value: T) => void
+): void {
+  writer.writeByte(value === undefined ? 0 : 1);
+  if (value !== undefined) {
+    writeValue(value);
+  }
+}
+
+function readOptional<T>(reader: Reader, readValue: () => T): T | undefined {
+  const isPresent = reader.readByte();
+  if (isPresent > 1) {
+    throw new ProofDecodingError(`Unknown presence byte ${isPresent}`);
+  }
+  return isPresent ? readValue() : undefined;
+}
+
+function readList<T>(reader: Reader, readItem: () => T): T[] {
+  const count = reader.readUint();
+  const items: T[] = [];
+  for (let i = 0; i < count; i++) {
+    items.push(readItem());
+  }
+  return items;
+}
+
+function readJson(reader: Reader): any {
+  const json = reader.readString();
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    throw new ProofDecodingError('Encoded proof contains malformed JSON');
+  }
+}
+
+function createWriter() {
+  const bytes: number[] = [];
+
+  const writeUint = (value: number, field = 'length') => {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw new InvalidParamError(
+        `${field} must be a non-negative integer to encode the proof`
+      );
+    }
+    while (value >= 0x80) {
+      bytes.push((value % 0x80) + 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    bytes.push(value);
+  };
+
+  const writeBytes = (value: Uint8Array) => {
+    writeUint(value.length);
+    value.forEach((byte) => bytes.push(byte));
+  };
+
+  return {
+    writeByte: (value: number) => {
+      bytes.push(value);
+    },
+    writeUint,
+    writeBytes,
+    writeString: (value: string) => {
+      writeBytes(ethers.utils.toUtf8Bytes(value));
+    },
+    toBytes: () => Uint8Array.from(bytes),
+  };
+}
+
+function createReader(bytes: Uint8Array) {
+  let offset = 0;
+
+  const readByte = (): number => {
+    if (offset >= bytes.length) {
+      throw new ProofDecodingError('Encoded proof is truncated');
+    }
+    return bytes[offset++] as number;
+  };
+
+  const readUint = (): number => {
+    let value = 0;
+    let multiplier = 1;
+    for (;;) {
+      const byte = readByte();
+      value += (byte % 0x80) * multiplier;
+      if (!Number.isSafeInteger(value)) {
+        throw new ProofDecodingError(
+          'Encoded proof contains an oversized integer'
+        );
+      }
+      if (byte < 0x80) {
+        return value;
+      }
+      multiplier *= 0x80;
+    }
+  };
+
+  const readBytes = (): Uint8Array => {
+    const length = readUint();
+    if (offset + length > bytes.length) {
+      throw new ProofDecodingError('Encoded proof is truncated');
+    }
+    const value = bytes.slice(offset, offset + length);
+    offset += length;
+    return value;
+  };
+
+  return {
+    readByte,
+    readUint,
+    readBytes,
+    readString: (): string => {
+      try {
+        return ethers.utils.toUtf8String(readBytes());
+      } catch (error) {
+        if (error instanceof ProofDecodingError) {
+          throw error;
+        }
+        throw new ProofDecodingError('Encoded proof contains invalid UTF-8');
+      }
+    },
+    isDone: () => offset === bytes.length,
+  };
+}
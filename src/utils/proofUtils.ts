@@ -1,29 +1,45 @@
 import { ethers } from 'ethers';
-import type { WitnessData } from './interfaces';
-import type { SignedClaim, TemplateData } from './types';
+import type { Beacon, Context, Proof, WitnessData } from './interfaces';
+import type {
+  RequestConfig,
+  SignedClaim,
+  TemplateData,
+  VerificationFailure,
+  VerifyProofOptions,
+  WitnessPolicy,
+} from './types';
 import { createSignDataForClaim, fetchWitnessListForClaim } from '../witness';
-import { BACKEND_BASE_URL, constants } from './constants';
-import { replaceAll } from './helper';
+import { replaceAll, resolveEndpoints } from './helper';
 import { validateURL } from './validationUtils';
+import { sendRequest } from './httpUtils';
 import { makeBeacon } from '../smart-contract';
-import { ProofNotVerifiedError } from './errors';
+import { ProofMismatchError, ProofNotVerifiedError } from './errors';
 import loggerModule from './logger';
 const logger = loggerModule.logger;
 
 /**
  * Retrieves a shortened URL for the given URL
  * @param url - The URL to be shortened
+ * @param config - The endpoints, HTTP transport and retry policy to use
  * @returns A promise that resolves to the shortened URL, or the original URL if shortening fails
  */
-export async function getShortenedUrl(url: string): Promise<string> {
+export async function getShortenedUrl(
+  url: string,
+  config?: RequestConfig
+): Promise<string> {
   logger.info(`Attempting to shorten URL: ${url}`);
+  const { backendBaseUrl } = resolveEndpoints(config?.endpoints);
   try {
     validateURL(url, 'getShortenedUrl');
-    const response = await fetch(`${BACKEND_BASE_URL}/api/sdk/shortener`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ fullUrl: url }),
-    });
+    const response = await sendRequest(
+      `${backendBaseUrl}/api/sdk/shortener`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fullUrl: url }),
+      },
+      config
+    );
     const res = await response.json();
     if (!response.ok) {
       logger.info(
@@ -42,18 +58,21 @@ export async function getShortenedUrl(url: string): Promise<string> {
 /**
  * Creates a link with embedded template data
  * @param templateData - The data to be embedded in the link
+ * @param config - The endpoints, HTTP transport and retry policy to use
  * @returns A promise that resolves to the created link (shortened if possible)
  */
 export async function createLinkWithTemplateData(
-  templateData: TemplateData
+  templateData: TemplateData,
+  config?: RequestConfig
 ): Promise<string> {
   let template = encodeURIComponent(JSON.stringify(templateData));
   template = replaceAll(template, '(', '%28');
   template = replaceAll(template, ')', '%29');
 
-  const fullLink = `${constants.RECLAIM_SHARE_URL}${template}`;
+  const { shareUrl } = resolveEndpoints(config?.endpoints);
+  const fullLink = `${shareUrl}${template}`;
   try {
-    const shortenedLink = await getShortenedUrl(fullLink);
+    const shortenedLink = await getShortenedUrl(fullLink, config);
     return shortenedLink;
   } catch (err) {
     logger.info(
@@ -68,15 +87,16 @@ export async function createLinkWithTemplateData(
  * @param epoch - The epoch number
  * @param identifier - The claim identifier
  * @param timestampS - The timestamp in seconds
+ * @param beacon - The beacon to read the epoch from (default: the beacon of the default chain)
  * @returns A promise that resolves to an array of witness addresses
  * @throws Error if no beacon is available
  */
 export async function getWitnessesForClaim(
   epoch: number,
   identifier: string,
-  timestampS: number
+  timestampS: number,
+  beacon: Beacon | undefined = makeBeacon()
 ): Promise<string[]> {
-  const beacon = makeBeacon();
   if (!beacon) {
     logger.info('No beacon available for getting witnesses');
     throw new Error('No beacon available');
@@ -106,30 +126,194 @@ export function recoverSignersOfSignedClaim({
 }
 
 /**
- * Asserts that a signed claim is valid by checking if all expected witnesses have signed
- * @param claim - The signed claim to validate
- * @param expectedWitnessAddresses - An array of expected witness addresses
- * @throws ProofNotVerifiedError if any expected witness signature is missing
+ * Asserts that a proof was generated for the parameters and context of a request
+ * @param proof - The verified proof
+ * @param expected - The parameters and context the request was created with
+ * @throws ProofMismatchError if a parameter or the context differs
  */
-export function assertValidSignedClaim(
-  claim: SignedClaim,
-  expectedWitnessAddresses: string[]
+export function assertProofMatchesRequest(
+  proof: Proof,
+  {
+    parameters,
+    context,
+  }: { parameters: { [key: string]: string }; context: Context }
 ): void {
-  const witnessAddresses = recoverSignersOfSignedClaim(claim);
-  const witnessesNotSeen = new Set(expectedWitnessAddresses);
-  for (const witness of witnessAddresses) {
-    if (witnessesNotSeen.has(witness)) {
-      witnessesNotSeen.delete(witness);
+  let paramValues: { [key: string]: unknown } = {};
+  let claimContext: Partial<Context> = {};
+  try {
+    paramValues = JSON.parse(proof.claimData.parameters)?.paramValues ?? {};
+    claimContext = JSON.parse(proof.claimData.context) ?? {};
+  } catch (err) {
+    logger.info('Failed to parse the claim parameters or context', err);
+    throw new ProofMismatchError(
+      'Claim parameters or context are not valid JSON'
+    );
+  }
+
+  for (const [key, value] of Object.entries(parameters)) {
+    if (paramValues[key] !== value) {
+      logger.info(
+        `Proof parameter ${key} is ${paramValues[key]}, expected ${value}`
+      );
+      throw new ProofMismatchError(
+        `Proof parameter ${key} does not match the request`
+      );
     }
   }
 
-  if (witnessesNotSeen.size > 0) {
-    const missingWitnesses = Array.from(witnessesNotSeen).join(', ');
+  if (
+    claimContext.contextAddress !== context.contextAddress ||
+    claimContext.contextMessage !== context.contextMessage
+  ) {
     logger.info(
-      `Claim validation failed. Missing signatures from: ${missingWitnesses}`
-    );
-    throw new ProofNotVerifiedError(
-      `Missing signatures from ${missingWitnesses}`
+      `Proof context ${proof.claimData.context} does not match ${JSON.stringify(
+        context
+      )}`
     );
+    throw new ProofMismatchError('Proof context does not match the request');
+  }
+}
+
+/**
+ * Checks a claim timestamp against the freshness options of verification
+ * @param timestampS - The claim timestamp in seconds
+ * @param options - The maximum age, earliest creation time and allowed clock skew
+ * @param now - The current time in milliseconds
+ * @returns Why the claim is stale, or undefined if it is fresh enough
+ */
+export function getStaleProofReason(
+  timestampS: number,
+  {
+    maxAgeMs,
+    notBefore,
+    clockSkewMs = 0,
+  }: Pick<VerifyProofOptions, 'maxAgeMs' | 'notBefore' | 'clockSkewMs'>,
+  now: number
+): string | undefined {
+  const createdAt = timestampS * 1000;
+  // A claim from the future would pass any age check
+  if (
+    (maxAgeMs !== undefined || notBefore !== undefined) &&
+    createdAt > now + clockSkewMs
+  ) {
+    return `Proof was created at ${createdAt}, after the current time ${now}`;
+  }
+  if (maxAgeMs !== undefined && now - createdAt > maxAgeMs + clockSkewMs) {
+    return `Proof was created ${
+      now - createdAt
+    }ms ago, more than the maximum age of ${maxAgeMs}ms`;
+  }
+  // Claim timestamps have second precision
+  if (
+    notBefore !== undefined &&
+    timestampS < Math.floor((notBefore - clockSkewMs) / 1000)
+  ) {
+    return `Proof was created at ${createdAt}, before ${notBefore}`;
+  }
+  return undefined;
+}
+
+/**
+ * Lists the expected witnesses that did not sign a claim
+ * @param expectedWitnessAddresses - An array of expected witness addresses
+ * @param signerAddresses - The addresses recovered from the claim's signatures
+ * @returns The expected witness addresses without a signature
+ */
+export function getMissingSigners(
+  expectedWitnessAddresses: string[],
+  signerAddresses: string[]
+): string[] {
+  const witnessesNotSeen = new Set(expectedWitnessAddresses);
+  for (const witness of signerAddresses) {
+    witnessesNotSeen.delete(witness);
+  }
+  return Array.from(witnessesNotSeen);
+}
+
+/**
+ * Checks the signers of a claim against a witness policy
+ * @param expectedWitnessAddresses - An array of expected witness addresses
+ * @param signerAddresses - The addresses recovered from the claim's signatures
+ * @param policy - The witness policy (default: every expected witness must sign)
+ * @returns The missing and unknown signers, and the failure if the policy isn't met
+ */
+export function evaluateWitnessSignatures(
+  expectedWitnessAddresses: string[],
+  signerAddresses: string[],
+  {
+    minimumWitnesses = expectedWitnessAddresses.length,
+    allowUnknownSigners = true,
+    rejectDuplicateSigners = false,
+  }: WitnessPolicy = {}
+): {
+  missingSigners: string[];
+  unknownSigners: string[];
+  failure?: VerificationFailure;
+} {
+  const expected = new Set(expectedWitnessAddresses);
+  const missingSigners = getMissingSigners(
+    expectedWitnessAddresses,
+    signerAddresses
+  );
+  const unknownSigners = signerAddresses.filter(
+    (signer) => !expected.has(signer)
+  );
+  const duplicateSigners = signerAddresses.filter(
+    (signer, index) => signerAddresses.indexOf(signer) !== index
+  );
+  const result = { missingSigners, unknownSigners };
+
+  const signedCount = expected.size - missingSigners.length;
+  if (signedCount < minimumWitnesses) {
+    return {
+      ...result,
+      failure: {
+        code: 'MISSING_WITNESS_SIGNATURES',
+        reason: `Missing signatures from ${missingSigners.join(', ')}`,
+      },
+    };
+  }
+  if (!allowUnknownSigners && unknownSigners.length > 0) {
+    return {
+      ...result,
+      failure: {
+        code: 'UNKNOWN_SIGNER',
+        reason: `Signed by unknown witnesses ${unknownSigners.join(', ')}`,
+      },
+    };
+  }
+  if (rejectDuplicateSigners && duplicateSigners.length > 0) {
+    return {
+      ...result,
+      failure: {
+        code: 'DUPLICATE_SIGNER',
+        reason: `Signed more than once by ${duplicateSigners.join(', ')}`,
+      },
+    };
+  }
+  return result;
+}
+
+/**
+ * Asserts that a signed claim is valid by checking its signers against a witness policy
+ * @param claim - The signed claim to validate
+ * @param expectedWitnessAddresses - An array of expected witness addresses
+ * @param policy - The witness policy (default: every expected witness must sign)
+ * @throws ProofNotVerifiedError if the signers don't meet the policy
+ */
+export function assertValidSignedClaim(
+  claim: SignedClaim,
+  expectedWitnessAddresses: string[],
+  policy?: WitnessPolicy
+): void {
+  const { failure } = evaluateWitnessSignatures(
+    expectedWitnessAddresses,
+    recoverSignersOfSignedClaim(claim),
+    policy
+  );
+
+  if (failure) {
+    logger.info(`Claim validation failed. ${failure.reason}`);
+    throw new ProofNotVerifiedError(failure.reason);
   }
 }
@@ -0,0 +1,125 @@
+import type { SessionStore } from './interfaces';
+import type { StoredSession } from './types';
+import loggerModule from './logger';
+const logger = loggerModule.logger;
+
+// Keys used to persist sessions in a SessionStore
+export const SESSION_STORE_KEYS = {
+  INDEX: 'reclaim:sessions',
+  SESSION_PREFIX: 'reclaim:session:',
+};
+
+// Updates of the session index are serialized per store to avoid lost writes
+const storeQueues = new WeakMap<SessionStore, Promise<unknown>>();
+
+function enqueue<T>(store: SessionStore, task: () => Promise<T>): Promise<T> {
+  const previous = storeQueues.get(store) ?? Promise.resolve();
+  const next = previous.then(task, task);
+  storeQueues.set(
+    store,
+    next.catch(() => {})
+  );
+  return next;
+}
+
+async function readIndex(store: SessionStore): Promise<string[]> {
+  const index = await store.get(SESSION_STORE_KEYS.INDEX);
+  if (!index) return [];
+  try {
+    const sessionIds = JSON.parse(index);
+    return Array.isArray(sessionIds) ? sessionIds : [];
+  } catch (err) {
+    logger.info('Ignoring malformed session index', err);
+    return [];
+  }
+}
+
+/**
+ * Creates a SessionStore that keeps sessions in memory, useful for tests
+ * @returns A new, empty session store
+ */
+export function makeInMemorySessionStore(): SessionStore {
+  const entries = new Map<string, string>();
+  return {
+    async get(key) {
+      return entries.get(key);
+    },
+    async set(key, value) {
+      entries.set(key, value);
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Saves a session so that it can be resumed later
+ * @param store - The session store
+ * @param sessionId - The ID of the session
+ * @param session - The serialized request and its expiry time
+ */
+export function saveSession(
+  store: SessionStore,
+  sessionId: string,
+  session: StoredSession
+): Promise<void> {
+  return enqueue(store, async () => {
+    await store.set(
+      `${SESSION_STORE_KEYS.SESSION_PREFIX}${sessionId}`,
+      JSON.stringify(session)
+    );
+    const sessionIds = await readIndex(store);
+    if (!sessionIds.includes(sessionId)) {
+      sessionIds.push(sessionId);
+      await store.set(SESSION_STORE_KEYS.INDEX, JSON.stringify(sessionIds));
+    }
+  });
+}
+
+/**
+ * Removes a session from the store
+ * @param store - The session store
+ * @param sessionId - The ID of the session
+ */
+export function removeSession(
+  store: SessionStore,
+  sessionId: string
+): Promise<void> {
+  return enqueue(store, async () => {
+    await store.delete(`${SESSION_STORE_KEYS.SESSION_PREFIX}${sessionId}`);
+    const sessionIds = await readIndex(store);
+    await store.set(
+      SESSION_STORE_KEYS.INDEX,
+      JSON.stringify(sessionIds.filter((id) => id !== sessionId))
+    );
+  });
+}
+
+/**
+ * Loads every session saved in the store
+ * Entries that cannot be read are skipped and returned as undefined
+ * @param store - The session store
+ * @returns A promise that resolves to the session IDs and their saved sessions
+ */
+export async function loadSessions(
+  store: SessionStore
+): Promise<{ sessionId: string; session?: StoredSession }[]> {
+  const sessionIds = await enqueue(store, () => readIndex(store));
+  return Promise.all(
+    sessionIds.map(async (sessionId) => {
+      try {
+        const value = await store.get(
+          `${SESSION_STORE_KEYS.SESSION_PREFIX}${sessionId}`
+        );
+        return {
+          sessionId,
+          session: value ? (JSON.parse(value) as StoredSession) : undefined,
+        };
+      } catch (err) {
+        logger.info(`Failed to load stored session ${sessionId}`, err);
+        return { sessionId };
+      }
+    })
+  );
+}
@@ -1,11 +1,18 @@
-import { InitSessionError, UpdateSessionError, StatusUrlError } from './errors';
+import {
+  InitSessionError,
+  NetworkError,
+  UpdateSessionError,
+  StatusUrlError,
+} from './errors';
 import type {
   InitSessionResponse,
+  RequestConfig,
   SessionStatus,
   StatusUrlResponse,
 } from './types';
 import { validateFunctionParams } from './validationUtils';
-import { BACKEND_BASE_URL, constants } from './constants';
+import { isRetryableStatus, sendRequest } from './httpUtils';
+import { resolveEndpoints } from './helper';
 import loggerModule from './logger';
 const logger = loggerModule.logger;
 
@@ -15,6 +22,7 @@ const logger = loggerModule.logger;
  * @param appId - The ID of the application
  * @param timestamp - The timestamp of the request
  * @param signature - The signature for authentication
+ * @param config - The endpoints, HTTP transport and retry policy to use
  * @returns A promise that resolves to an InitSessionResponse
  * @throws InitSessionError if the session initialization fails
  */
@@ -22,17 +30,25 @@ export async function initSession(
   providerId: string,
   appId: string,
   timestamp: string,
-  signature: string
+  signature: string,
+  config?: RequestConfig
 ): Promise<InitSessionResponse> {
   logger.info(
     `Initializing session for providerId: ${providerId}, appId: ${appId}`
   );
+  const { backendBaseUrl } = resolveEndpoints(config?.endpoints);
   try {
-    const response = await fetch(`${BACKEND_BASE_URL}/api/sdk/init/session/`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ providerId, appId, timestamp, signature }),
-    });
+    const response = await sendRequest(
+      `${backendBaseUrl}/api/sdk/init/session/`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ providerId, appId, timestamp, signature }),
+      },
+      config,
+      // A retried request could create a second session
+      { idempotent: false }
+    );
 
     const res = await response.json();
 
@@ -60,10 +76,15 @@ export async function initSession(
  * Updates the status of an existing session
  * @param sessionId - The ID of the session to update
  * @param status - The new status of the session
+ * @param config - The endpoints, HTTP transport and retry policy to use
  * @returns A promise that resolves to the update response
  * @throws UpdateSessionError if the session update fails
  */
-export async function updateSession(sessionId: string, status: SessionStatus) {
+export async function updateSession(
+  sessionId: string,
+  status: SessionStatus,
+  config?: RequestConfig
+) {
   logger.info(
     `Updating session status for sessionId: ${sessionId}, new status: ${status}`
   );
@@ -71,15 +92,17 @@ export async function updateSession(sessionId: string, status: SessionStatus) {
     [{ input: sessionId, paramName: 'sessionId', isString: true }],
     'updateSession'
   );
+  const { backendBaseUrl } = resolveEndpoints(config?.endpoints);
 
   try {
-    const response = await fetch(
-      `${BACKEND_BASE_URL}/api/sdk/update/session/`,
+    const response = await sendRequest(
+      `${backendBaseUrl}/api/sdk/update/session/`,
       {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ sessionId, status }),
-      }
+      },
+      config
     );
 
     const res = await response.json();
@@ -106,30 +129,40 @@ export async function updateSession(sessionId: string, status: SessionStatus) {
 /**
  * Fetches the status URL for a given session ID
  * @param sessionId - The ID of the session to fetch the status URL for
+ * @param config - The endpoints, HTTP transport and retry policy to use
  * @returns A promise that resolves to a StatusUrlResponse
- * @throws StatusUrlError if the status URL fetch fails
+ * @throws NetworkError if the fetch failed for a transient reason, worth trying again
+ * @throws StatusUrlError if the status URL fetch fails otherwise
  */
 export async function fetchStatusUrl(
-  sessionId: string
+  sessionId: string,
+  config?: RequestConfig
 ): Promise<StatusUrlResponse> {
   validateFunctionParams(
     [{ input: sessionId, paramName: 'sessionId', isString: true }],
     'fetchStatusUrl'
   );
+  const { statusUrl } = resolveEndpoints(config?.endpoints);
 
   try {
-    const response = await fetch(
-      `${constants.DEFAULT_RECLAIM_STATUS_URL}${sessionId}`,
+    const response = await sendRequest(
+      `${statusUrl}${sessionId}`,
       {
         method: 'GET',
         headers: { 'Content-Type': 'application/json' },
-      }
+      },
+      config
     );
 
+    const errorMessage = `Error fetching status URL for sessionId: ${sessionId}. Status Code: ${response.status}`;
+    // Proxies answer with non-JSON error pages, so this is checked before parsing
+    if (isRetryableStatus(response.status)) {
+      throw new NetworkError(errorMessage);
+    }
+
     const res = await response.json();
 
     if (!response.ok) {
-      const errorMessage = `Error fetching status URL for sessionId: ${sessionId}. Status Code: ${response.status}`;
       logger.info(errorMessage, res);
       throw new StatusUrlError(errorMessage);
     }
@@ -138,6 +171,9 @@ export async function fetchStatusUrl(
   } catch (err) {
     const errorMessage = `Failed to fetch status URL for sessionId: ${sessionId}`;
     logger.info(errorMessage, err);
+    if (err instanceof NetworkError || err instanceof StatusUrlError) {
+      throw err;
+    }
     throw new StatusUrlError(
       `Error fetching status URL for sessionId: ${sessionId}`
     );
@@ -0,0 +1,102 @@
+import type {
+  EventSourceConstructor,
+  ProofRequestOptions,
+  StatusTransport,
+  StatusUrlResponse,
+  WebSocketConstructor,
+} from './types';
+import { resolveEndpoints } from './helper';
+import loggerModule from './logger';
+const logger = loggerModule.logger;
+
+// The stream implementations the runtime may provide
+const globalStreams = globalThis as {
+  EventSource?: EventSourceConstructor;
+  WebSocket?: WebSocketConstructor;
+};
+
+export type StatusStreamHandlers = {
+  onStatus: (response: StatusUrlResponse) => void;
+  // Called once when the stream closes or fails, unless it was closed by the caller
+  onDisconnect: () => void;
+};
+
+export type StatusStream = {
+  close(): void;
+};
+
+/**
+ * Opens a stream of status updates for a session
+ * Each message carries the same StatusUrlResponse payload as the status URL
+ * @param transport - The streaming transport to use
+ * @param sessionId - The ID of the session
+ * @param handlers - Callbacks for status updates and disconnection
+ * @param options - The endpoints and stream implementations of the proof request
+ * @returns The open stream
+ * @throws Error if no implementation of the transport is available
+ */
+export function openStatusStream(
+  transport: Exclude<StatusTransport, 'poll'>,
+  sessionId: string,
+  { onStatus, onDisconnect }: StatusStreamHandlers,
+  options?: ProofRequestOptions
+): StatusStream {
+  const endpoints = resolveEndpoints(options?.endpoints);
+  let isClosed = false;
+
+  const onMessage = ({ data }: { data: string }) => {
+    if (isClosed) return;
+    try {
+      onStatus(JSON.parse(data) as StatusUrlResponse);
+    } catch (err) {
+      logger.info(`Ignoring malformed status message for ${sessionId}`, err);
+    }
+  };
+
+  const disconnect = () => {
+    if (isClosed) return;
+    isClosed = true;
+    logger.info(`Status stream for ${sessionId} disconnected`);
+    onDisconnect();
+  };
+
+  if (transport === 'sse') {
+    const EventSourceImpl = options?.eventSource ?? globalStreams.EventSource;
+    if (!EventSourceImpl) {
+      throw new Error('No EventSource implementation available');
+    }
+    const source = new EventSourceImpl(
+      `${endpoints.statusStreamUrl}${sessionId}`
+    );
+    source.onmessage = onMessage;
+    // EventSource reconnects on its own; close it so the session can poll instead
+    source.onerror = () => {
+      source.close();
+      disconnect();
+    };
+    return {
+      close() {
+        isClosed = true;
+        source.close();
+      },
+    };
+  }
+
+  const WebSocketImpl = options?.webSocket ?? globalStreams.WebSocket;
+  if (!WebSocketImpl) {
+    throw new Error('No WebSocket implementation available');
+  }
+  const socket = new WebSocketImpl(`${endpoints.statusSocketUrl}${sessionId}`);
+  socket.onmessage = onMessage;
+  socket.onerror = () => {
+    socket.close();
+    disconnect();
+  };
+  socket.onclose = disconnect;
+  return {
+    close() {
+      isClosed = true;
+      socket.close();
+    },
+  };
+}
@@ -1,4 +1,13 @@
-import type { Context, Proof, ProviderClaimData } from './interfaces';
+import type {
+  Beacon,
+  BeaconState,
+  Context,
+  Proof,
+  ProviderClaimData,
+  SessionStore,
+  WitnessData,
+} from './interfaces';
+import type { ReclaimProofRequest } from '../Reclaim';
 
 // Claim-related types
 export type ClaimID = ProviderClaimData['identifier'];
@@ -21,6 +30,216 @@ export type SignedClaim = {
   signatures: Uint8Array[];
 };
 
+// Proof verification types
+export type VerifyProofOptions = {
+  // Chain whose Reclaim contract provides the witnesses (default: 11155420)
+  chainId?: number;
+  // Replaces the contract beacon, e.g. to read witnesses from another source
+  beacon?: Beacon;
+  // Verifies offline against pinned witnesses, takes precedence over chainId and beacon
+  snapshot?: BeaconSnapshot;
+  // Persists past epochs of the contract beacon across app launches
+  beaconCache?: BeaconCacheStore;
+  // RPC endpoints of the chain, tried in order when one fails (default: the bundled endpoint)
+  rpcUrls?: string[];
+  // Number of endpoints that must return the same epoch before it is trusted (default: 1)
+  rpcQuorum?: number;
+  // Which witness signatures a proof needs (default: every selected witness)
+  witnessPolicy?: WitnessPolicy;
+  // Where signatures are checked: in the SDK, by the Reclaim contract, or both
+  // with any disagreement reported (default: 'local')
+  mode?: VerificationMode;
+  // Rejects proofs whose claim is older than this
+  maxAgeMs?: number;
+  // Rejects proofs created before this time, in milliseconds since the epoch
+  notBefore?: number;
+  // Tolerance applied to maxAgeMs and notBefore for clock differences (default: 0).
+  // With either set, proofs created later than now plus this tolerance are rejected
+  clockSkewMs?: number;
+  // Address the claim must be owned by, compared case-insensitively, or a predicate
+  // that receives the lowercase owner address
+  expectedOwner?: string | ((owner: string) => boolean);
+};
+
+export type SessionVerificationOptions = Omit<
+  VerifyProofOptions,
+  'notBefore'
+> & {
+  // Rejects proofs created before the proof request
+  notBeforeRequestCreation?: boolean;
+};
+
+export type VerificationMode = 'local' | 'onchain' | 'both';
+
+export type WitnessPolicy = {
+  // Selected witnesses that must sign (default: all of them)
+  minimumWitnesses?: number;
+  // Whether signatures from addresses other than the selected witnesses are ignored (default: true)
+  allowUnknownSigners?: boolean;
+  // Whether a witness that signed more than once fails the proof (default: false)
+  rejectDuplicateSigners?: boolean;
+  // Addresses accepted as manual-verify witnesses (default: none)
+  trustedManualVerifiers?: string[];
+};
+
+// Why a proof failed verification
+export type VerificationFailureCode =
+  | 'NO_SIGNATURES'
+  | 'BEACON_UNAVAILABLE'
+  | 'EPOCH_NOT_IN_SNAPSHOT'
+  | 'MALFORMED_PROOF'
+  | 'IDENTIFIER_MISMATCH'
+  | 'INVALID_SIGNATURE'
+  | 'UNTRUSTED_MANUAL_VERIFIER'
+  | 'MISSING_WITNESS_SIGNATURES'
+  | 'UNKNOWN_SIGNER'
+  | 'DUPLICATE_SIGNER'
+  | 'ONCHAIN_UNAVAILABLE'
+  | 'ONCHAIN_REVERTED'
+  | 'VERIFICATION_MISMATCH'
+  | 'OWNER_MISMATCH'
+  | 'STALE_PROOF';
+
+export type VerificationFailure = {
+  code: VerificationFailureCode;
+  reason: string;
+};
+
+export type OnchainVerificationResult = {
+  isVerified: boolean;
+  revertReason?: string;
+};
+
+// Outcome of verifying one proof. Verification stops at the first failing check,
+// so fields of later checks are left empty
+export type ProofVerificationReport = {
+  isVerified: boolean;
+  failureCode?: VerificationFailureCode;
+  failureReason?: string;
+  chainId?: number;
+  epoch: number;
+  claimedIdentifier: string;
+  calculatedIdentifier?: string;
+  // Lowercase addresses
+  expectedWitnesses: string[];
+  recoveredSigners: string[];
+  missingSigners: string[];
+  unknownSigners: string[];
+  // Result of the contract call, when verified on-chain
+  onchain?: OnchainVerificationResult;
+  timing: {
+    startedAt: number;
+    witnessLookupMs?: number;
+    durationMs: number;
+  };
+};
+
+// Key-value storage for past epochs, e.g. backed by AsyncStorage
+export type BeaconCacheStore = Pick<SessionStore, 'get' | 'set'>;
+
+export type BeaconCacheOptions = {
+  store?: BeaconCacheStore;
+  // Prepended to the epoch id to form the store key
+  keyPrefix?: string;
+  // Announces new epochs so the cached current epoch is replaced right away.
+  // Returns a function that stops the announcements, called by close()
+  subscribe?: (onEpoch: (state: BeaconState) => void) => () => void;
+  // Called when the current epoch moves to a newer one
+  onEpochChange?: (state: BeaconState) => void;
+};
+
+export type MakeBeaconOptions = Pick<
+  VerifyProofOptions,
+  'rpcUrls' | 'rpcQuorum'
+> &
+  Pick<BeaconCacheOptions, 'store' | 'onEpochChange'> & {
+    // Listen for the contract's EpochAdded events instead of waiting for the
+    // current epoch to expire. Close the beacon to stop listening
+    watchEpochs?: boolean;
+  };
+
+// Witness sets of one or more epochs, exported to verify proofs without an RPC
+export type BeaconSnapshot = {
+  chainId?: number;
+  states: BeaconState[];
+};
+
+export type ExportBeaconSnapshotOptions = Pick<
+  VerifyProofOptions,
+  'chainId' | 'beacon' | 'rpcUrls' | 'rpcQuorum'
+> & {
+  // Epochs to include (default: the current epoch)
+  epochs?: number[];
+};
+
+export type VerificationResult = {
+  isVerified: boolean;
+  // undefined when a custom beacon was given without a chainId
+  chainId?: number;
+};
+
+// Structs of the Reclaim contract ABI, in the field order of Claims.ClaimInfo
+// and Claims.CompleteClaimData
+export type OnchainClaimInfo = {
+  provider: string;
+  parameters: string;
+  context: string;
+};
+
+export type OnchainCompleteClaimData = {
+  identifier: string;
+  owner: string;
+  timestampS: number;
+  epoch: number;
+};
+
+export type OnchainSignedClaim = {
+  claim: OnchainCompleteClaimData;
+  signatures: string[];
+};
+
+export type OnchainProof = {
+  claimInfo: OnchainClaimInfo;
+  signedClaim: OnchainSignedClaim;
+};
+
+// A field of an untrusted proof that failed validation, e.g. 'proof.signatures[0]'
+export type ProofValidationIssue = {
+  path: string;
+  message: string;
+};
+
+// Reclaim contract methods that take a proof
+export type OnchainProofMethod = 'assertValidEpochAndSignedClaim';
+
+// An epoch of the Reclaim contract, with lowercased witness addresses as ids
+export type ContractEpoch = {
+  id: number;
+  timestampStart: number;
+  timestampEnd: number;
+  witnesses: WitnessData[];
+  minimumWitnessesForClaimCreation: number;
+};
+
+// Read-only access to the Reclaim contract of a chain
+export interface ReclaimContractClient {
+  chainId: number;
+  address: string;
+  // Without an epoch, returns the current epoch
+  fetchEpoch(epoch?: number): Promise<ContractEpoch>;
+  currentEpoch(): Promise<number>;
+  epochDurationS(): Promise<number>;
+  // Witnesses the contract selects for a claim
+  fetchWitnessesForClaim(
+    epoch: number,
+    identifier: string,
+    timestampS: number
+  ): Promise<WitnessData[]>;
+  // Calls the listener for every EpochAdded event, returns a function that
+  // removes it. Events are found by polling the RPC for logs
+  onEpochAdded(listener: (epoch: ContractEpoch) => void): () => void;
+}
+
 // Request and session-related types
 export type CreateVerificationRequest = {
   providerIds: string[];
@@ -30,15 +249,200 @@ export type CreateVerificationRequest = {
 export type StartSessionParams = {
   onSuccess: OnSuccess;
   onError: OnError;
+  onStatusChange?: OnStatusChange;
+  // Aborting the signal cancels the session like SessionHandle.cancel()
+  signal?: AbortSignal;
+  // Overrides the sessionTimeoutMs polling option for this session
+  timeoutMs?: number;
+  // Saves the session while it runs so it can be resumed with resumePending
+  store?: SessionStore;
+  // How status updates are received (default: 'poll')
+  transport?: StatusTransport;
+  // Checks applied to the proofs on top of signature verification
+  verification?: SessionVerificationOptions;
 };
 
+export type WaitForProofsOptions = Pick<
+  StartSessionParams,
+  'signal' | 'timeoutMs' | 'transport' | 'verification'
+>;
+
+export type StatusUpdatesOptions = Pick<
+  StartSessionParams,
+  'signal' | 'transport' | 'verification'
+>;
+
+export interface SessionHandle {
+  // Stops polling and reports a SessionCancelledError
+  cancel(): void;
+  // Resolves when proofs are received, rejects with the error passed to onError
+  done: Promise<void>;
+}
+
 export type OnSuccess = (proof: Proof | Proof[] | string) => void;
 export type OnError = (error: Error) => void;
+// previous is undefined for the first status received in a session
+export type OnStatusChange = (
+  status: SessionStatus,
+  previous: SessionStatus | undefined
+) => void;
 
 export type ProofRequestOptions = {
   log?: boolean;
   acceptAiProviders?: boolean;
   useAppClip?: boolean;
+  transport?: HttpTransport;
+  retry?: RetryPolicy;
+  endpoints?: Partial<ReclaimEndpoints>;
+  polling?: PollingOptions;
+  // Implementations used by the 'sse' and 'websocket' status transports,
+  // defaulting to the global EventSource and WebSocket when available
+  eventSource?: EventSourceConstructor;
+  webSocket?: WebSocketConstructor;
+};
+
+// Status polling schedule and failure tolerances, all durations in milliseconds
+export type PollingOptions = {
+  // Delay before the first poll, and after every status change
+  initialIntervalMs?: number;
+  // Multiplier applied to the delay after each poll without a status change
+  backoffFactor?: number;
+  maxIntervalMs?: number;
+  // Time to wait for proofs before the session fails with a TimeoutError
+  sessionTimeoutMs?: number;
+  // How long PROOF_GENERATION_FAILED may persist before the session fails
+  failureGracePeriodMs?: number;
+};
+
+// Backend URLs used by a proof request
+export type ReclaimEndpoints = {
+  // Base URL of the backend API
+  backendBaseUrl: string;
+  // Callback URL prefix, the session ID is appended to it
+  callbackUrl: string;
+  // Status URL prefix, the session ID is appended to it
+  statusUrl: string;
+  // Share URL prefix, the encoded template is appended to it
+  shareUrl: string;
+  // Android instant app and iOS App Clip URL prefixes used with useAppClip,
+  // the encoded template is appended to them
+  instantAppUrl: string;
+  appClipUrl: string;
+  // Server-sent events status stream prefix, the session ID is appended to it
+  statusStreamUrl: string;
+  // WebSocket status stream prefix, the session ID is appended to it
+  statusSocketUrl: string;
+};
+
+// How a session receives status updates. Streams fall back to polling when they
+// disconnect, and the session keeps polling without reopening the stream
+export type StatusTransport = 'poll' | 'sse' | 'websocket';
+
+// Subset of the EventSource API used by the 'sse' status transport
+export interface EventSourceLike {
+  onmessage: ((event: { data: string }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  close(): void;
+}
+
+// Subset of the WebSocket API used by the 'websocket' status transport
+export interface WebSocketLike {
+  onmessage: ((event: { data: string }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+  close(): void;
+}
+
+export type EventSourceConstructor = new (url: string) => EventSourceLike;
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+// HTTP transport and retry types
+export type HttpRequestInit = {
+  method: 'GET' | 'POST';
+  headers: { [key: string]: string };
+  body?: string;
+};
+
+export type HttpResponse = {
+  ok: boolean;
+  status: number;
+  json(): Promise<any>;
+};
+
+export type HttpTransport = (
+  url: string,
+  init: HttpRequestInit
+) => Promise<HttpResponse>;
+
+export type RetryPolicy = {
+  // Total number of attempts, including the first one
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffFactor?: number;
+  // Fraction (0 to 1) of each delay that is randomised
+  jitter?: number;
+};
+
+export type RequestConfig = Pick<
+  ProofRequestOptions,
+  'transport' | 'retry' | 'endpoints'
+>;
+
+// Multi-provider request types
+export type ProofsByProvider = { [providerId: string]: Proof[] };
+
+export type MultiProviderProgress = {
+  completed: string[];
+  pending: string[];
+  // Proofs of the completed providers, empty when a custom callback url is set
+  proofs: ProofsByProvider;
+};
+
+export type StartMultiProviderSessionParams = Omit<
+  StartSessionParams,
+  'onSuccess' | 'onStatusChange' | 'store'
+> & {
+  onSuccess: (proofs: ProofsByProvider) => void;
+  onProviderComplete?: (
+    providerId: string,
+    progress: MultiProviderProgress
+  ) => void;
+  onStatusChange?: (
+    providerId: string,
+    status: SessionStatus,
+    previous: SessionStatus | undefined
+  ) => void;
+};
+
+// useReclaimProofRequest hook types
+export type ProofRequestHookStatus =
+  | 'initializing'
+  | 'ready'
+  | 'in_progress'
+  | 'completed'
+  | 'failed';
+
+export type UseReclaimProofRequestOptions = ProofRequestOptions & {
+  // Called after init and before the request url is generated, e.g. to add context
+  configure?: (request: ReclaimProofRequest) => void;
+};
+
+export type ProofRequestHookStartOptions = Pick<
+  StartSessionParams,
+  'timeoutMs' | 'store' | 'transport'
+>;
+
+export type UseReclaimProofRequestResult = {
+  request: ReclaimProofRequest | null;
+  requestUrl: string | null;
+  status: ProofRequestHookStatus;
+  // Empty until the session completes, and when proofs go to a custom callback url
+  proofs: Proof[];
+  error: Error | null;
+  start: (options?: ProofRequestHookStartOptions) => Promise<void>;
+  cancel: () => void;
+  reset: () => void;
 };
 
 // Session and response types
@@ -79,6 +483,23 @@ export type ProofPropertiesJSON = {
   sdkVersion: string;
 };
 
+// A session saved in a SessionStore
+export type StoredSession = {
+  // The proof request, as returned by toJsonString
+  request: string;
+  // Time in milliseconds after which the session is discarded
+  expiresAt: number;
+};
+
+export type ResumedSession = {
+  request: ReclaimProofRequest;
+  session: SessionHandle;
+};
+
+export type MultiProofPropertiesJSON = {
+  requests: ProofPropertiesJSON[];
+};
+
 export type TemplateData = {
   sessionId: string;
   providerId: string;
@@ -102,7 +523,7 @@ export type StatusUrlResponse = {
     httpProviderId: string[];
     sessionId: string;
     proofs?: Proof[];
-    statusV2: string;
+    statusV2: SessionStatus;
   };
   providerId?: string;
 };
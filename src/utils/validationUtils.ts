@@ -1,9 +1,30 @@
 import { ethers } from 'ethers';
-import { InvalidParamError, InvalidSignatureError } from './errors';
+import {
+  InvalidParamError,
+  InvalidSignatureError,
+  ProofValidationError,
+} from './errors';
 import canonicalize from 'canonicalize';
-import type { Context } from './interfaces';
+import type {
+  Context,
+  Proof,
+  ProviderClaimData,
+  SessionStore,
+  WitnessData,
+} from './interfaces';
+import { resolvePollingOptions } from './helper';
 import loggerModule from './logger';
-import type { ProofRequestOptions } from './types';
+import type {
+  BeaconSnapshot,
+  HttpTransport,
+  PollingOptions,
+  ProofRequestOptions,
+  ProofValidationIssue,
+  ReclaimEndpoints,
+  RetryPolicy,
+  VerifyProofOptions,
+  WitnessPolicy,
+} from './types';
 const logger = loggerModule.logger;
 
 /**
@@ -227,3 +248,547 @@ export function validateOptions(options: ProofRequestOptions): void {
     throw new InvalidParamError(`The provided log in options is not valid`);
   }
 }
+
+/**
+ * Validates a custom HTTP transport
+ * @param transport - The transport to validate
+ * @param functionName - The name of the function calling this validation
+ * @throws InvalidParamError if the transport is not a function
+ */
+export function validateTransport(
+  transport: HttpTransport,
+  functionName: string
+): void {
+  if (typeof transport !== 'function') {
+    logger.info(
+      `Transport validation failed: transport in ${functionName} is not a function`
+    );
+    throw new InvalidParamError(
+      `transport passed to ${functionName} must be a function.`
+    );
+  }
+}
+
+/**
+ * Validates the secret or signer used to sign a proof request
+ * @param appSecretOrSigner - The application secret or an ethers Signer
+ * @param functionName - The name of the function calling this validation
+ * @throws InvalidParamError if the input is neither a non-empty string nor a Signer
+ */
+export function validateAppSecretOrSigner(
+  appSecretOrSigner: string | ethers.Signer,
+  functionName: string
+): void {
+  if (typeof appSecretOrSigner === 'string') {
+    validateFunctionParams(
+      [{ paramName: 'appSecret', input: appSecretOrSigner, isString: true }],
+      functionName
+    );
+    return;
+  }
+  if (!ethers.Signer.isSigner(appSecretOrSigner)) {
+    logger.info(
+      `Signer validation failed: appSecret in ${functionName} is neither a string nor a Signer`
+    );
+    throw new InvalidParamError(
+      `appSecret passed to ${functionName} must be a string or an ethers Signer.`
+    );
+  }
+}
+
+/**
+ * Validates a retry policy
+ * @param retry - The retry policy to validate
+ * @param functionName - The name of the function calling this validation
+ * @throws InvalidParamError if any field of the retry policy is not valid
+ */
+export function validateRetryPolicy(
+  retry: RetryPolicy,
+  functionName: string
+): void {
+  if (typeof retry !== 'object' || retry === null) {
+    logger.info(
+      `Retry policy validation failed: retry in ${functionName} is not an object`
+    );
+    throw new InvalidParamError(
+      `retry passed to ${functionName} must be an object.`
+    );
+  }
+
+  const { maxAttempts, initialDelayMs, maxDelayMs, backoffFactor, jitter } =
+    retry;
+  const checks: [string, number | undefined, boolean][] = [
+    [
+      'maxAttempts',
+      maxAttempts,
+      Number.isInteger(maxAttempts) && (maxAttempts as number) >= 1,
+    ],
+    ['initialDelayMs', initialDelayMs, (initialDelayMs as number) >= 0],
+    ['maxDelayMs', maxDelayMs, (maxDelayMs as number) >= 0],
+    ['backoffFactor', backoffFactor, (backoffFactor as number) >= 1],
+    ['jitter', jitter, (jitter as number) >= 0 && (jitter as number) <= 1],
+  ];
+
+  for (const [name, value, isValid] of checks) {
+    if (value !== undefined && (typeof value !== 'number' || !isValid)) {
+      logger.info(
+        `Retry policy validation failed: ${name} in ${functionName} is not valid`
+      );
+      throw new InvalidParamError(
+        `The provided retry.${name} passed to ${functionName} is not valid`
+      );
+    }
+  }
+}
+
+/**
+ * Validates custom backend endpoints
+ * @param endpoints - The endpoints to validate
+ * @param functionName - The name of the function calling this validation
+ * @throws InvalidParamError if endpoints is not an object or any endpoint is not a valid URL
+ */
+export function validateEndpoints(
+  endpoints: Partial<ReclaimEndpoints>,
+  functionName: string
+): void {
+  if (typeof endpoints !== 'object' || endpoints === null) {
+    logger.info(
+      `Endpoints validation failed: endpoints in ${functionName} is not an object`
+    );
+    throw new InvalidParamError(
+      `endpoints passed to ${functionName} must be an object.`
+    );
+  }
+
+  for (const url of Object.values(endpoints)) {
+    if (url !== undefined) {
+      validateURL(url, functionName);
+    }
+  }
+}
+
+/**
+ * Validates the status polling options
+ * @param polling - The polling options to validate
+ * @param functionName - The name of the function calling this validation
+ * @throws InvalidParamError if any polling option is not valid
+ */
+export function validatePollingOptions(
+  polling: PollingOptions,
+  functionName: string
+): void {
+  if (typeof polling !== 'object' || polling === null) {
+    logger.info(
+      `Polling validation failed: polling in ${functionName} is not an object`
+    );
+    throw new InvalidParamError(
+      `polling passed to ${functionName} must be an object.`
+    );
+  }
+
+  const {
+    initialIntervalMs,
+    backoffFactor,
+    maxIntervalMs,
+    sessionTimeoutMs,
+    failureGracePeriodMs,
+  } = polling;
+  const checks: [string, number | undefined, boolean][] = [
+    ['initialIntervalMs', initialIntervalMs, (initialIntervalMs as number) > 0],
+    ['backoffFactor', backoffFactor, (backoffFactor as number) >= 1],
+    ['maxIntervalMs', maxIntervalMs, (maxIntervalMs as number) > 0],
+    ['sessionTimeoutMs', sessionTimeoutMs, (sessionTimeoutMs as number) > 0],
+    [
+      'failureGracePeriodMs',
+      failureGracePeriodMs,
+      (failureGracePeriodMs as number) >= 0,
+    ],
+  ];
+
+  for (const [name, value, isValid] of checks) {
+    if (value !== undefined && (typeof value !== 'number' || !isValid)) {
+      logger.info(
+        `Polling validation failed: ${name} in ${functionName} is not valid`
+      );
+      throw new InvalidParamError(
+        `The provided polling.${name} passed to ${functionName} is not valid`
+      );
+    }
+  }
+
+  // Compared with the defaults filled in, since either may be left out
+  const resolved = resolvePollingOptions(polling);
+  if (resolved.maxIntervalMs < resolved.initialIntervalMs) {
+    logger.info(
+      `Polling validation failed: maxIntervalMs in ${functionName} is lower than initialIntervalMs`
+    );
+    throw new InvalidParamError(
+      `The provided polling.maxIntervalMs passed to ${functionName} must not be lower than polling.initialIntervalMs`
+    );
+  }
+}
+
+/**
+ * Validates a session store
+ * @param store - The session store to validate
+ * @param functionName - The name of the function calling this validation
+ * @throws InvalidParamError if the store does not implement get, set and delete
+ */
+export function validateSessionStore(
+  store: SessionStore,
+  functionName: string
+): void {
+  if (
+    typeof store !== 'object' ||
+    store === null ||
+    typeof store.get !== 'function' ||
+    typeof store.set !== 'function' ||
+    typeof store.delete !== 'function'
+  ) {
+    logger.info(`Session store validation failed in ${functionName}`);
+    throw new InvalidParamError(
+      `store passed to ${functionName} must implement get, set and delete.`
+    );
+  }
+}
+
+/**
+ * Validates the options of verifyProof
+ * @param options - The verification options to validate
+ * @param functionName - The name of the function calling this validation
+ * @throws InvalidParamError if any option is not valid
+ */
+export function validateVerifyProofOptions(
+  options: VerifyProofOptions,
+  functionName: string
+): void {
+  const {
+    chainId,
+    beacon,
+    maxAgeMs,
+    notBefore,
+    clockSkewMs,
+    expectedOwner,
+    rpcUrls,
+    rpcQuorum,
+    witnessPolicy,
+    mode,
+  } = options;
+  if (
+    chainId !== undefined &&
+    (typeof chainId !== 'number' || !Number.isInteger(chainId) || chainId <= 0)
+  ) {
+    logger.info(`Verify options validation failed: chainId in ${functionName}`);
+    throw new InvalidParamError(
+      `chainId passed to ${functionName} must be a positive integer.`
+    );
+  }
+  if (
+    beacon !== undefined &&
+    (typeof beacon !== 'object' ||
+      beacon === null ||
+      typeof beacon.getState !== 'function')
+  ) {
+    logger.info(`Verify options validation failed: beacon in ${functionName}`);
+    throw new InvalidParamError(
+      `beacon passed to ${functionName} must implement getState.`
+    );
+  }
+
+  if (
+    expectedOwner !== undefined &&
+    typeof expectedOwner !== 'function' &&
+    !(
+      typeof expectedOwner === 'string' && ethers.utils.isAddress(expectedOwner)
+    )
+  ) {
+    logger.info(
+      `Verify options validation failed: expectedOwner in ${functionName}`
+    );
+    throw new InvalidParamError(
+      `expectedOwner passed to ${functionName} must be an address or a function.`
+    );
+  }
+
+  if (rpcUrls !== undefined) {
+    if (!Array.isArray(rpcUrls) || rpcUrls.length === 0) {
+      logger.info(
+        `Verify options validation failed: rpcUrls in ${functionName}`
+      );
+      throw new InvalidParamError(
+        `rpcUrls passed to ${functionName} must be a non-empty array.`
+      );
+    }
+    rpcUrls.forEach((url) => validateURL(url, functionName));
+  }
+  if (
+    rpcQuorum !== undefined &&
+    (!Number.isInteger(rpcQuorum) ||
+      rpcQuorum < 1 ||
+      rpcQuorum > (rpcUrls?.length ?? 1))
+  ) {
+    logger.info(
+      `Verify options validation failed: rpcQuorum in ${functionName}`
+    );
+    throw new InvalidParamError(
+      `rpcQuorum passed to ${functionName} must be between 1 and the number of rpcUrls.`
+    );
+  }
+
+  if (witnessPolicy !== undefined) {
+    validateWitnessPolicy(witnessPolicy, functionName);
+  }
+
+  if (mode !== undefined && !['local', 'onchain', 'both'].includes(mode)) {
+    throw new InvalidParamError(
+      `mode passed to ${functionName} must be 'local', 'onchain' or 'both'.`
+    );
+  }
+
+  const checks: [string, number | undefined, boolean][] = [
+    ['maxAgeMs', maxAgeMs, (maxAgeMs as number) > 0],
+    ['notBefore', notBefore, (notBefore as number) >= 0],
+    ['clockSkewMs', clockSkewMs, (clockSkewMs as number) >= 0],
+  ];
+  for (const [name, value, isValid] of checks) {
+    if (value !== undefined && (typeof value !== 'number' || !isValid)) {
+      logger.info(
+        `Verify options validation failed: ${name} in ${functionName} is not valid`
+      );
+      throw new InvalidParamError(
+        `The provided ${name} passed to ${functionName} is not valid`
+      );
+    }
+  }
+}
+
+/**
+ * Validates a beacon snapshot
+ * @param snapshot - The snapshot to validate
+ * @param functionName - The name of the function calling this validation
+ * @throws InvalidParamError if the snapshot has no states or a state is malformed
+ */
+export function validateBeaconSnapshot(
+  snapshot: BeaconSnapshot,
+  functionName: string
+): void {
+  const isValidState = (state: BeaconSnapshot['states'][number]) =>
+    typeof state === 'object' &&
+    state !== null &&
+    Number.isInteger(state.epoch) &&
+    state.epoch > 0 &&
+    Number.isInteger(state.witnessesRequiredForClaim) &&
+    Array.isArray(state.witnesses) &&
+    state.witnesses.length >= state.witnessesRequiredForClaim &&
+    state.witnesses.every(
+      (witness) => typeof witness?.id === 'string' && witness.id.length > 0
+    );
+
+  if (
+    typeof snapshot !== 'object' ||
+    snapshot === null ||
+    !Array.isArray(snapshot.states) ||
+    snapshot.states.length === 0 ||
+    !snapshot.states.every(isValidState)
+  ) {
+    logger.info(`Beacon snapshot validation failed in ${functionName}`);
+    throw new InvalidParamError(
+      `snapshot passed to ${functionName} must contain at least one valid epoch.`
+    );
+  }
+}
+
+/**
+ * Validates a witness policy
+ * @param policy - The witness policy to validate
+ * @param functionName - The name of the function calling this validation
+ * @throws InvalidParamError if any field of the policy is not valid
+ */
+export function validateWitnessPolicy(
+  policy: WitnessPolicy,
+  functionName: string
+): void {
+  const {
+    minimumWitnesses,
+    allowUnknownSigners,
+    rejectDuplicateSigners,
+    trustedManualVerifiers,
+  } = policy ?? {};
+  const isValid =
+    typeof policy === 'object' &&
+    policy !== null &&
+    (minimumWitnesses === undefined ||
+      (Number.isInteger(minimumWitnesses) && minimumWitnesses > 0)) &&
+    (allowUnknownSigners === undefined ||
+      typeof allowUnknownSigners === 'boolean') &&
+    (rejectDuplicateSigners === undefined ||
+      typeof rejectDuplicateSigners === 'boolean') &&
+    (trustedManualVerifiers === undefined ||
+      (Array.isArray(trustedManualVerifiers) &&
+        trustedManualVerifiers.every((address) =>
+          ethers.utils.isAddress(address)
+        )));
+
+  if (!isValid) {
+    logger.info(`Witness policy validation failed in ${functionName}`);
+    throw new InvalidParamError(
+      `witnessPolicy passed to ${functionName} is not valid.`
+    );
+  }
+}
+
+/**
+ * Validates a proof from an untrusted source, such as a webhook
+ * Every field is checked, so the error lists all malformed fields at once
+ * @param input - The proof, or its JSON string
+ * @returns A proof holding only the known fields of the input
+ * @throws ProofValidationError with the path and problem of each malformed field
+ */
+export function parseProof(input: unknown): Proof {
+  const issues: ProofValidationIssue[] = [];
+  const fail = (path: string, message: string) => {
+    issues.push({ path, message });
+  };
+
+  if (typeof input === 'string') {
+    try {
+      input = JSON.parse(input);
+    } catch (error) {
+      throw new ProofValidationError([
+        { path: 'proof', message: 'must be valid JSON' },
+      ]);
+    }
+  }
+  if (!isPlainObject(input)) {
+    throw new ProofValidationError([
+      { path: 'proof', message: 'must be an object' },
+    ]);
+  }
+
+  const checkString = (value: unknown, path: string) => {
+    if (typeof value !== 'string') {
+      fail(path, 'must be a string');
+    }
+  };
+  const checkHex = (
+    value: unknown,
+    path: string,
+    byteLength: number,
+    description: string
+  ) => {
+    if (
+      typeof value !== 'string' ||
+      !ethers.utils.isHexString(value, byteLength)
+    ) {
+      fail(path, `must be ${description}`);
+    }
+  };
+  const checkUint = (value: unknown, path: string) => {
+    if (
+      typeof value !== 'number' ||
+      !Number.isSafeInteger(value) ||
+      value < 0
+    ) {
+      fail(path, 'must be a non-negative integer');
+    }
+  };
+  const checkArray = (value: unknown, path: string): value is unknown[] => {
+    if (!Array.isArray(value)) {
+      fail(path, 'must be an array');
+      return false;
+    }
+    return true;
+  };
+
+  // Identifiers of older proofs are wrapped in quotes, which verifyProof strips
+  const identifier =
+    typeof input.identifier === 'string'
+      ? input.identifier.replace(/^"(.*)"$/, '$1')
+      : input.identifier;
+  checkHex(identifier, 'proof.identifier', 32, 'a 32-byte hex string');
+
+  const { claimData } = input;
+  if (isPlainObject(claimData)) {
+    checkString(claimData.provider, 'proof.claimData.provider');
+    checkString(claimData.parameters, 'proof.claimData.parameters');
+    checkHex(claimData.owner, 'proof.claimData.owner', 20, 'an address');
+    checkUint(claimData.timestampS, 'proof.claimData.timestampS');
+    checkString(claimData.context, 'proof.claimData.context');
+    checkHex(
+      claimData.identifier,
+      'proof.claimData.identifier',
+      32,
+      'a 32-byte hex string'
+    );
+    checkUint(claimData.epoch, 'proof.claimData.epoch');
+  } else {
+    fail('proof.claimData', 'must be an object');
+  }
+
+  if (checkArray(input.signatures, 'proof.signatures')) {
+    input.signatures.forEach((signature, index) =>
+      checkHex(
+        signature,
+        `proof.signatures[${index}]`,
+        65,
+        'a 65-byte hex signature'
+      )
+    );
+  }
+
+  if (checkArray(input.witnesses, 'proof.witnesses')) {
+    input.witnesses.forEach((witness, index) => {
+      const path = `proof.witnesses[${index}]`;
+      if (!isPlainObject(witness)) {
+        fail(path, 'must be an object');
+        return;
+      }
+      checkHex(witness.id, `${path}.id`, 20, 'an address');
+      checkString(witness.url, `${path}.url`);
+    });
+  }
+
+  const { publicData } = input;
+  if (
+    publicData !== undefined &&
+    !(
+      isPlainObject(publicData) &&
+      Object.values(publicData).every((value) => typeof value === 'string')
+    )
+  ) {
+    fail('proof.publicData', 'must be an object of strings');
+  }
+
+  if (issues.length) {
+    logger.info(`Proof validation failed for ${issues.length} field(s)`);
+    throw new ProofValidationError(issues);
+  }
+
+  const validClaimData = claimData as ProviderClaimData;
+  const proof: Proof = {
+    identifier: input.identifier as string,
+    claimData: {
+      provider: validClaimData.provider,
+      parameters: validClaimData.parameters,
+      owner: validClaimData.owner,
+      timestampS: validClaimData.timestampS,
+      context: validClaimData.context,
+      identifier: validClaimData.identifier,
+      epoch: validClaimData.epoch,
+    },
+    signatures: [...(input.signatures as string[])],
+    witnesses: (input.witnesses as WitnessData[]).map(({ id, url }) => ({
+      id,
+      url,
+    })),
+    extractedParameterValues: input.extractedParameterValues,
+  };
+  if (publicData !== undefined) {
+    proof.publicData = { ...(publicData as { [key: string]: string }) };
+  }
+  return proof;
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}